@@ -1,34 +1,82 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { BusinessProfile } from './types';
+import { requestAccessTokenSilently, renewAccessToken, setAccessTokenRefresher, setDemoMode, DEMO_ACCESS_TOKEN } from './services/googleBusinessService';
+import { AuthError } from './services/googleApiErrors';
 import { BusinessConfig } from './components/BusinessConfig';
 import { Dashboard } from './components/Dashboard';
 import { ChatBubbleLeftRightIcon } from '@heroicons/react/24/solid';
 
+// Renew a little before Google's one-hour expiry so in-flight requests don't fail
+const TOKEN_RENEWAL_MARGIN_MS = 2 * 60 * 1000;
+
 export default function App() {
   const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
+  const [authNotice, setAuthNotice] = useState('');
+  const profileRef = useRef<BusinessProfile | null>(null);
+  profileRef.current = businessProfile;
 
   // Load from localStorage on mount
   useEffect(() => {
     const savedProfile = localStorage.getItem('businessProfile');
     if (savedProfile) {
       try {
-        setBusinessProfile(JSON.parse(savedProfile));
+        const profile: BusinessProfile = JSON.parse(savedProfile);
+        setDemoMode(!!profile.isDemo);
+        setBusinessProfile(profile);
       } catch (e) {
         console.error("Failed to parse saved profile");
       }
     }
   }, []);
 
+  // Expired or revoked tokens are renewed silently; only a failed renewal asks the user to sign in again
+  useEffect(() => {
+    setAccessTokenRefresher(async () => {
+      // The mock server accepts any bearer token, so a simulated 401 just replays
+      if (profileRef.current?.isDemo) return DEMO_ACCESS_TOKEN;
+
+      const clientId = localStorage.getItem('google_client_id') || '';
+      try {
+        const { accessToken, expiresAt } = await requestAccessTokenSilently(clientId);
+        if (profileRef.current) {
+          handleConnectProfile({ ...profileRef.current, accessToken, tokenExpiresAt: expiresAt });
+        }
+        return accessToken;
+      } catch (e) {
+        console.error("Silent token renewal failed:", e);
+        handleSessionExpired();
+        throw new AuthError("Your Google session has expired. Please sign in again.", 401);
+      }
+    });
+    return () => setAccessTokenRefresher(null);
+  }, []);
+
+  useEffect(() => {
+    if (!businessProfile?.tokenExpiresAt) return;
+    const delay = Math.max(businessProfile.tokenExpiresAt - Date.now() - TOKEN_RENEWAL_MARGIN_MS, 0);
+    const timer = setTimeout(() => {
+      renewAccessToken(businessProfile.accessToken).catch(() => {});
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [businessProfile?.accessToken, businessProfile?.tokenExpiresAt]);
+
   const handleConnectProfile = (profile: BusinessProfile) => {
     setBusinessProfile(profile);
+    setAuthNotice('');
     localStorage.setItem('businessProfile', JSON.stringify(profile));
   };
 
   const handleDisconnect = () => {
+    setDemoMode(false);
     setBusinessProfile(null);
     localStorage.removeItem('businessProfile');
   };
 
+  const handleSessionExpired = () => {
+    handleDisconnect();
+    setAuthNotice("Your Google session expired and could not be renewed automatically. Please sign in again.");
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900 font-sans">
       {/* Header */}
@@ -60,13 +108,14 @@ export default function App() {
       <main className="flex-grow p-4 sm:p-8">
         {!businessProfile ? (
           <div className="flex flex-col items-center justify-center min-h-[80vh] animate-fade-in-up">
-            <BusinessConfig onConnect={handleConnectProfile} />
+            <BusinessConfig onConnect={handleConnectProfile} notice={authNotice} />
           </div>
         ) : (
           <div className="animate-fade-in">
              <Dashboard 
                 businessProfile={businessProfile} 
                 onLogout={handleDisconnect}
+                onUpdateProfile={handleConnectProfile}
              />
           </div>
         )}
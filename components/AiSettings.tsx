@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { LlmConfig, LlmProviderType } from '../types';
+import { PROVIDER_DEFAULTS, resolveLlmConfig } from '../services/llmProviders';
+
+interface AiSettingsProps {
+  value?: LlmConfig;
+  onSave: (config: LlmConfig) => void;
+  onCancel: () => void;
+}
+
+const PROVIDER_LABELS: Record<LlmProviderType, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible API',
+  'local': 'Local model (Ollama / llama.cpp)',
+  'fake': 'Offline test provider'
+};
+
+export const AiSettings: React.FC<AiSettingsProps> = ({ value, onSave, onCancel }) => {
+  const [config, setConfig] = useState<LlmConfig>(resolveLlmConfig(value));
+
+  const needsBaseUrl = config.provider === 'openai-compatible' || config.provider === 'local';
+
+  const changeProvider = (provider: LlmProviderType) => {
+    setConfig({ ...config, provider, ...PROVIDER_DEFAULTS[provider], apiKey: undefined });
+  };
+
+  const changeSetting = (key: keyof LlmConfig['settings'], raw: string) => {
+    const parsed = raw === '' ? undefined : Number(raw);
+    setConfig({ ...config, settings: { ...config.settings, [key]: parsed } });
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white";
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Provider</label>
+          <select
+            value={config.provider}
+            onChange={(e) => changeProvider(e.target.value as LlmProviderType)}
+            className={inputClass}
+          >
+            {(Object.keys(PROVIDER_LABELS) as LlmProviderType[]).map(p => (
+              <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Model</label>
+          <input
+            type="text"
+            value={config.model}
+            onChange={(e) => setConfig({ ...config, model: e.target.value })}
+            disabled={config.provider === 'fake'}
+            className={`${inputClass} font-mono disabled:bg-slate-50`}
+          />
+        </div>
+        {needsBaseUrl && (
+          <div>
+            <label className={labelClass}>Base URL</label>
+            <input
+              type="text"
+              value={config.baseUrl || ''}
+              onChange={(e) => setConfig({ ...config, baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        )}
+        {config.provider !== 'fake' && (
+          <div>
+            <label className={labelClass}>API Key {config.provider !== 'openai-compatible' && '(optional)'}</label>
+            <input
+              type="password"
+              value={config.apiKey || ''}
+              onChange={(e) => setConfig({ ...config, apiKey: e.target.value || undefined })}
+              placeholder={config.provider === 'gemini' ? 'Uses the server key when empty' : ''}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        )}
+      </div>
+
+      {config.provider !== 'fake' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>Temperature</label>
+            <input
+              type="number" min={0} max={2} step={0.1}
+              value={config.settings.temperature}
+              onChange={(e) => changeSetting('temperature', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Top P</label>
+            <input
+              type="number" min={0} max={1} step={0.05}
+              value={config.settings.topP ?? ''}
+              onChange={(e) => changeSetting('topP', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {config.provider === 'gemini' && (
+            <div>
+              <label className={labelClass}>Top K</label>
+              <input
+                type="number" min={1} step={1}
+                value={config.settings.topK ?? ''}
+                onChange={(e) => changeSetting('topK', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Max Tokens</label>
+            <input
+              type="number" min={1} step={1}
+              value={config.settings.maxOutputTokens ?? ''}
+              onChange={(e) => changeSetting('maxOutputTokens', e.target.value)}
+              placeholder="Default"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...config, settings: { ...config.settings, temperature: config.settings.temperature ?? 0.7 } })}
+          disabled={!config.model.trim()}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
+        >
+          Save Settings
+        </button>
+      </div>
+    </div>
+  );
+};
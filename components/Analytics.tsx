@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { ConnectedLocation, DraftVariantStyle, GoogleReview } from '../types';
+import {
+  averageRating,
+  daysSince,
+  filterReviews,
+  medianReplyHours,
+  oldestUnanswered,
+  ratingDistribution,
+  replyRate,
+  variantStyleCounts,
+  weeklyStats
+} from '../services/analyticsService';
+import { VARIANT_STYLES } from '../services/draftVariants';
+import { StarIcon, ClockIcon, ChatBubbleLeftEllipsisIcon, InboxIcon } from '@heroicons/react/24/solid';
+
+interface AnalyticsProps {
+  reviews: GoogleReview[];
+  locations: ConnectedLocation[];
+}
+
+type RangePreset = '30' | '90' | '365' | 'all' | 'custom';
+
+const RANGE_LABELS: Record<RangePreset, string> = {
+  '30': 'Last 30 days',
+  '90': 'Last 90 days',
+  '365': 'Last 12 months',
+  'all': 'All time',
+  'custom': 'Custom range'
+};
+
+const isoDaysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatDuration = (hours: number) => {
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${Math.round(hours)} h`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+const StatCard: React.FC<{ icon: React.ReactNode; label: string; value: string; hint?: string }> = ({ icon, label, value, hint }) => (
+  <div className="bg-white rounded-xl border border-slate-200 p-4">
+    <div className="flex items-center text-xs font-semibold text-slate-500 uppercase mb-2">{icon}<span className="ml-1">{label}</span></div>
+    <div className="text-2xl font-bold text-slate-800">{value}</div>
+    {hint && <div className="text-xs text-slate-400 mt-1">{hint}</div>}
+  </div>
+);
+
+export const Analytics: React.FC<AnalyticsProps> = ({ reviews, locations }) => {
+  const [range, setRange] = useState<RangePreset>('90');
+  const [customFrom, setCustomFrom] = useState(isoDaysAgo(30));
+  const [customTo, setCustomTo] = useState(isoDaysAgo(0));
+  const [locationId, setLocationId] = useState('');
+
+  const filtered = filterReviews(reviews, {
+    from: range === 'custom' ? customFrom : range === 'all' ? undefined : isoDaysAgo(Number(range)),
+    to: range === 'custom' ? customTo : undefined,
+    locationId: locationId || undefined
+  });
+
+  const average = averageRating(filtered);
+  const distribution = ratingDistribution(filtered);
+  const weeks = weeklyStats(filtered);
+  const rate = replyRate(filtered);
+  const medianHours = medianReplyHours(filtered);
+  const unanswered = oldestUnanswered(filtered);
+  const styleCounts = variantStyleCounts(filtered);
+  const preferredStyles = (Object.keys(styleCounts) as DraftVariantStyle[]).sort((a, b) => styleCounts[b]! - styleCounts[a]!);
+  const maxStyleCount = Math.max(1, ...preferredStyles.map(s => styleCounts[s]!));
+
+  const maxDistribution = Math.max(1, ...distribution);
+  const maxWeekCount = Math.max(1, ...weeks.map(w => w.count));
+  const locationTitle = (id: string) => locations.find(l => l.locationId === id)?.title || id;
+
+  // Weeks without reviews have no average, so the line skips them
+  const ratedWeeks = weeks.map((w, i) => ({ ...w, index: i })).filter(w => w.averageRating !== undefined);
+  const linePoints = ratedWeeks
+    .map(w => `${weeks.length > 1 ? (w.index / (weeks.length - 1)) * 100 : 50},${100 - ((w.averageRating! - 1) / 4) * 100}`)
+    .join(' ');
+
+  const inputClass = "bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm text-slate-700 outline-none";
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 bg-white rounded-xl border border-slate-200 px-4 py-3">
+        <select value={range} onChange={(e) => setRange(e.target.value as RangePreset)} className={inputClass}>
+          {(Object.keys(RANGE_LABELS) as RangePreset[]).map(r => <option key={r} value={r}>{RANGE_LABELS[r]}</option>)}
+        </select>
+        {range === 'custom' && (
+          <>
+            <input type="date" value={customFrom} onChange={(e) => setCustomFrom(e.target.value)} className={inputClass} />
+            <span className="text-slate-400 text-sm">to</span>
+            <input type="date" value={customTo} onChange={(e) => setCustomTo(e.target.value)} className={inputClass} />
+          </>
+        )}
+        {locations.length > 1 && (
+          <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className={inputClass}>
+            <option value="">All Locations</option>
+            {locations.map(l => <option key={l.locationId} value={l.locationId}>{l.title}</option>)}
+          </select>
+        )}
+        <span className="text-xs text-slate-400 ml-auto">{filtered.length} of {reviews.length} synced reviews</span>
+      </div>
+
+      {/* Headline Numbers */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard
+          icon={<StarIcon className="w-4 h-4 text-amber-400" />}
+          label="Average Rating"
+          value={average !== undefined ? average.toFixed(2) : '–'}
+          hint={`${filtered.length} reviews`}
+        />
+        <StatCard
+          icon={<ChatBubbleLeftEllipsisIcon className="w-4 h-4 text-indigo-500" />}
+          label="Replied"
+          value={rate !== undefined ? `${Math.round(rate * 100)}%` : '–'}
+          hint={`${filtered.filter(r => r.status !== 'replied').length} unanswered`}
+        />
+        <StatCard
+          icon={<ClockIcon className="w-4 h-4 text-indigo-500" />}
+          label="Median Time to Reply"
+          value={medianHours !== undefined ? formatDuration(medianHours) : '–'}
+          hint="Measured to the reply's last update"
+        />
+        <StatCard
+          icon={<InboxIcon className="w-4 h-4 text-indigo-500" />}
+          label="Reviews per Week"
+          value={weeks.length ? (filtered.length / weeks.length).toFixed(1) : '–'}
+          hint={`Over ${weeks.length} weeks`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Rating Distribution */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h3 className="text-sm font-bold text-slate-700 mb-4">Rating Distribution</h3>
+          <div className="space-y-2">
+            {[5, 4, 3, 2, 1].map(stars => (
+              <div key={stars} className="flex items-center text-sm">
+                <span className="w-8 flex items-center text-slate-600">{stars}<StarIcon className="w-3 h-3 text-amber-400 ml-0.5" /></span>
+                <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden mx-2">
+                  <div
+                    className={`h-full ${stars >= 4 ? 'bg-green-500' : stars === 3 ? 'bg-amber-400' : 'bg-red-500'}`}
+                    style={{ width: `${(distribution[stars - 1] / maxDistribution) * 100}%` }}
+                  />
+                </div>
+                <span className="w-10 text-right text-slate-500">{distribution[stars - 1]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Average Rating Over Time */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h3 className="text-sm font-bold text-slate-700 mb-4">Average Rating by Week</h3>
+          {ratedWeeks.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">No reviews in this range.</p>
+          ) : (
+            <div className="flex">
+              <div className="flex flex-col justify-between text-[10px] text-slate-400 pr-2 h-32">
+                <span>5</span><span>3</span><span>1</span>
+              </div>
+              <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="flex-1 h-32 overflow-visible">
+                <line x1="0" y1="50" x2="100" y2="50" stroke="#e2e8f0" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+                <polyline points={linePoints} fill="none" stroke="#4f46e5" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+              </svg>
+            </div>
+          )}
+        </div>
+
+        {/* Weekly Volume */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h3 className="text-sm font-bold text-slate-700 mb-4">Reviews per Week</h3>
+          {weeks.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">No reviews in this range.</p>
+          ) : (
+            <>
+              <div className="flex items-end h-32 gap-px">
+                {weeks.map(w => (
+                  <div
+                    key={w.weekStart}
+                    title={`Week of ${w.weekStart}: ${w.count} reviews`}
+                    className="flex-1 bg-indigo-500 hover:bg-indigo-600 rounded-t-sm min-h-[1px]"
+                    style={{ height: `${(w.count / maxWeekCount) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                <span>{weeks[0].weekStart}</span>
+                <span>{weeks[weeks.length - 1].weekStart}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Oldest Unanswered */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h3 className="text-sm font-bold text-slate-700 mb-4">Oldest Unanswered Reviews</h3>
+          {unanswered.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">Every review in this range has a reply.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {unanswered.map(review => (
+                <li key={review.id} className="py-2 flex items-start justify-between text-sm">
+                  <div className="min-w-0 mr-3">
+                    <div className="font-medium text-slate-700 flex items-center">
+                      {review.reviewerName}
+                      <span className="ml-2 flex items-center text-xs text-slate-500">{review.rating}<StarIcon className="w-3 h-3 text-amber-400 ml-0.5" /></span>
+                    </div>
+                    <p className="text-xs text-slate-500 truncate">{review.content}</p>
+                    {locations.length > 1 && <p className="text-[10px] text-indigo-600">{locationTitle(review.locationId)}</p>}
+                  </div>
+                  <span className="text-xs font-semibold text-red-600 whitespace-nowrap">{daysSince(review.createTime)} days</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Preferred Draft Styles */}
+        <div className="bg-white rounded-xl border border-slate-200 p-5">
+          <h3 className="text-sm font-bold text-slate-700 mb-4">Preferred Draft Styles</h3>
+          {preferredStyles.length === 0 ? (
+            <p className="text-sm text-slate-400 py-8 text-center">No draft variants were picked in this range.</p>
+          ) : (
+            <div className="space-y-2">
+              {preferredStyles.map(style => (
+                <div key={style} className="flex items-center text-sm">
+                  <span className="w-28 text-slate-600 truncate">{VARIANT_STYLES[style].label}</span>
+                  <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden mx-2">
+                    <div className="h-full bg-indigo-500" style={{ width: `${(styleCounts[style]! / maxStyleCount) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-slate-500">{styleCounts[style]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { GoogleReview, TeamMember } from '../types';
+import { STATUS_LABELS, canApprove, hasApproved, requiredApprovals } from '../services/approvalWorkflow';
+import { CheckIcon, ChatBubbleBottomCenterTextIcon, ArrowUturnLeftIcon, XMarkIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
+
+interface ApprovalPanelProps {
+  review: GoogleReview;
+  member: TeamMember;
+  busy: boolean;
+  blocked: boolean; // The draft fails a blocking guardrail check
+  onSubmit: () => void;
+  onApprove: (comment: string) => void;
+  onRequestChanges: (comment: string) => void;
+  onReject: (comment: string) => void;
+  onComment: (text: string) => void;
+}
+
+/**
+ * Comments, approvals and review decisions for a draft, shown while the approval workflow is on
+ */
+export const ApprovalPanel: React.FC<ApprovalPanelProps> = ({ review, member, busy, blocked, onSubmit, onApprove, onRequestChanges, onReject, onComment }) => {
+  const [comment, setComment] = useState('');
+  const approvals = review.approvals || [];
+  const required = requiredApprovals(review);
+  const isApprover = canApprove(member);
+  const canDecide = isApprover && !hasApproved(review, member) &&
+    (review.status === 'drafted' || review.status === 'in_review' || review.status === 'needs_changes');
+  const canSubmit = review.status === 'drafted' || review.status === 'needs_changes' || review.status === 'rejected';
+
+  // Comments go with the decision they were typed for
+  const act = (action: (text: string) => void) => {
+    action(comment);
+    setComment('');
+  };
+
+  const buttonClass = "flex items-center text-xs font-medium disabled:opacity-50";
+
+  return (
+    <div className="border-t border-slate-200 pt-3 space-y-2 text-xs">
+      <div className="flex items-center justify-between text-slate-500">
+        <span>
+          {approvals.length > 0
+            ? `Approved by ${approvals.map(a => a.memberName).join(', ')} (${approvals.length} of ${required})`
+            : `Needs ${required === 2 ? 'two approvers (negative review)' : 'one approver'}`}
+        </span>
+        {review.status === 'approved' && !isApprover && <span className="text-green-700 font-medium">Waiting for an approver to post</span>}
+      </div>
+
+      {review.comments && review.comments.length > 0 && (
+        <ul className="space-y-1">
+          {review.comments.map((c, i) => (
+            <li key={i} className="bg-white border border-slate-100 rounded-md px-2 py-1">
+              <span className="font-semibold text-slate-700">{c.memberName}</span>
+              {c.status && <span className="text-slate-400"> · {STATUS_LABELS[c.status]}</span>}
+              <span className="text-slate-400"> · {new Date(c.at).toLocaleString()}</span>
+              <p className="text-slate-600">{c.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={isApprover ? "Comment or reason for the decision..." : "Add a comment..."}
+          className="flex-1 min-w-[160px] px-2 py-1 border border-slate-200 rounded-md bg-white outline-none"
+        />
+        <button onClick={() => act(onComment)} disabled={busy || !comment.trim()} className={`${buttonClass} text-slate-600 hover:text-slate-900`}>
+          <ChatBubbleBottomCenterTextIcon className="w-3 h-3 mr-1" /> Comment
+        </button>
+        {canSubmit && !isApprover && (
+          <button onClick={onSubmit} disabled={busy || blocked} className={`${buttonClass} text-indigo-600 hover:text-indigo-800`}>
+            <PaperAirplaneIcon className="w-3 h-3 mr-1" /> Submit for Review
+          </button>
+        )}
+        {canDecide && (
+          <>
+            <button onClick={() => act(onRequestChanges)} disabled={busy || !comment.trim()} title="Explain what to change in the comment" className={`${buttonClass} text-amber-600 hover:text-amber-800`}>
+              <ArrowUturnLeftIcon className="w-3 h-3 mr-1" /> Request Changes
+            </button>
+            <button onClick={() => act(onReject)} disabled={busy} className={`${buttonClass} text-red-600 hover:text-red-800`}>
+              <XMarkIcon className="w-3 h-3 mr-1" /> Reject
+            </button>
+            <button onClick={() => act(onApprove)} disabled={busy || blocked} className={`${buttonClass} text-green-700 hover:text-green-900`}>
+              <CheckIcon className="w-3 h-3 mr-1" /> Approve
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
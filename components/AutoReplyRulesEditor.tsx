@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { AutoReplyAction, AutoReplyRule, GoogleReview, Language, ReplyTemplate, Sentiment } from '../types';
+import {
+  AUTO_POST_MIN_RATING,
+  AUTO_REPLY_ACTION_LABELS,
+  AutoReplyPlanItem,
+  createAutoReplyRule,
+  planAutoReplies
+} from '../services/autoReplyEngine';
+import { SENTIMENTS } from '../services/analysisService';
+import { PlusIcon, TrashIcon, ArrowUpIcon, EyeIcon } from '@heroicons/react/24/outline';
+
+interface AutoReplyRulesEditorProps {
+  value?: AutoReplyRule[];
+  templates: ReplyTemplate[];
+  reviews: GoogleReview[];
+  languageFor: (review: GoogleReview) => Language;
+  canAutoPost: (review: GoogleReview) => boolean;
+  onSave: (rules: AutoReplyRule[]) => void;
+  onCancel: () => void;
+}
+
+const parseNumber = (raw: string) => raw === '' ? undefined : Number(raw);
+
+const STATUS_STYLES: Record<AutoReplyPlanItem['status'], string> = {
+  ready: 'bg-green-100 text-green-700',
+  waiting: 'bg-slate-100 text-slate-600',
+  capped: 'bg-amber-100 text-amber-700'
+};
+
+export const AutoReplyRulesEditor: React.FC<AutoReplyRulesEditorProps> = ({ value, templates, reviews, languageFor, canAutoPost, onSave, onCancel }) => {
+  const [rules, setRules] = useState<AutoReplyRule[]>(value || []);
+  const [preview, setPreview] = useState<AutoReplyPlanItem[] | null>(null);
+
+  const updateRule = (id: string, changes: Partial<AutoReplyRule>) => {
+    setRules(rules.map(r => r.id === id ? { ...r, ...changes } : r));
+    setPreview(null);
+  };
+
+  const moveRuleUp = (index: number) => {
+    const next = [...rules];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setRules(next);
+    setPreview(null);
+  };
+
+  const describeStatus = (item: AutoReplyPlanItem) => {
+    if (item.status === 'waiting') return `Waits until ${new Date(item.readyAt).toLocaleString()}`;
+    if (item.status === 'capped') return 'Daily cap reached, waits until tomorrow';
+    return 'On the next sync';
+  };
+
+  const smallInputClass = "px-2 py-1 border border-slate-300 rounded-md text-xs bg-white outline-none";
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={labelClass}>Auto-Reply Rules (first match wins)</label>
+          <button
+            onClick={() => { setRules([...rules, createAutoReplyRule()]); setPreview(null); }}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center"
+          >
+            <PlusIcon className="w-3 h-3 mr-1" /> Add Rule
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Rules run after each sync on reviews that have no reply or draft yet.
+          Reviews under {AUTO_POST_MIN_RATING} stars are never posted automatically; a posting rule queues them for approval instead.
+        </p>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">No rules yet. Every review waits for you.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`bg-slate-50 border border-slate-100 rounded-lg p-2 text-xs text-slate-600 space-y-2 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                    className="w-4 h-4 accent-indigo-600"
+                    title="Enabled"
+                  />
+                  <input
+                    type="text"
+                    value={rule.name}
+                    onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                    className={`${smallInputClass} flex-1 font-medium`}
+                  />
+                  <button onClick={() => moveRuleUp(index)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up">
+                    <ArrowUpIcon className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => { setRules(rules.filter(r => r.id !== rule.id)); setPreview(null); }}
+                    className="p-1 text-slate-400 hover:text-red-600"
+                    title="Delete rule"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>Stars</span>
+                  <select value={rule.minRating ?? ''} onChange={(e) => updateRule(rule.id, { minRating: parseNumber(e.target.value) })} className={smallInputClass}>
+                    <option value="">any</option>
+                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                  <span>to</span>
+                  <select value={rule.maxRating ?? ''} onChange={(e) => updateRule(rule.id, { maxRating: parseNumber(e.target.value) })} className={smallInputClass}>
+                    <option value="">any</option>
+                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                  <select
+                    value={rule.hasText === undefined ? '' : String(rule.hasText)}
+                    onChange={(e) => updateRule(rule.id, { hasText: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                    className={smallInputClass}
+                  >
+                    <option value="">with or without text</option>
+                    <option value="true">with text</option>
+                    <option value="false">rating only</option>
+                  </select>
+                  <select
+                    value={rule.language || ''}
+                    onChange={(e) => updateRule(rule.id, { language: (e.target.value || undefined) as Language | undefined })}
+                    className={smallInputClass}
+                  >
+                    <option value="">any language</option>
+                    {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+                  </select>
+                  <select
+                    value={rule.sentiment || ''}
+                    onChange={(e) => updateRule(rule.id, { sentiment: (e.target.value || undefined) as Sentiment | undefined })}
+                    className={`${smallInputClass} capitalize`}
+                  >
+                    <option value="">any sentiment</option>
+                    {SENTIMENTS.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <input
+                    type="text"
+                    value={(rule.keywords || []).join(', ')}
+                    onChange={(e) => updateRule(rule.id, { keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+                    placeholder="keywords, comma separated"
+                    className={`${smallInputClass} flex-1 min-w-[140px]`}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>After</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.minAgeHours ?? ''}
+                    onChange={(e) => updateRule(rule.id, { minAgeHours: parseNumber(e.target.value) })}
+                    placeholder="0"
+                    className={`${smallInputClass} w-16`}
+                  />
+                  <span>hours →</span>
+                  <select value={rule.action} onChange={(e) => updateRule(rule.id, { action: e.target.value as AutoReplyAction })} className={smallInputClass}>
+                    {(Object.keys(AUTO_REPLY_ACTION_LABELS) as AutoReplyAction[]).map(a => <option key={a} value={a}>{AUTO_REPLY_ACTION_LABELS[a]}</option>)}
+                  </select>
+                  <span>using</span>
+                  <select value={rule.templateId || ''} onChange={(e) => updateRule(rule.id, { templateId: e.target.value || undefined })} className={smallInputClass}>
+                    <option value="">an AI draft</option>
+                    {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                  <span>at most</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={rule.dailyCap}
+                    onChange={(e) => updateRule(rule.id, { dailyCap: Math.max(1, Number(e.target.value) || 1) })}
+                    className={`${smallInputClass} w-16`}
+                  />
+                  <span>per day</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {preview && (
+        <div>
+          <label className={labelClass}>Dry Run ({preview.length} reviews)</label>
+          {preview.length === 0 ? (
+            <p className="text-sm text-slate-400 py-4 text-center">No pending review matches these rules.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg max-h-64 overflow-y-auto text-xs">
+              {preview.map(item => (
+                <li key={item.review.id} className="px-3 py-2 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="font-medium text-slate-700">{item.review.reviewerName}</span>
+                    <span className="text-slate-400"> · {item.review.rating}★ · {item.rule.name}</span>
+                    <p className="text-slate-500 truncate">{item.review.content}</p>
+                    {item.note && <p className="text-amber-700">{item.note}</p>}
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <span className={`px-2 py-0.5 rounded-full font-semibold ${STATUS_STYLES[item.status]}`}>{AUTO_REPLY_ACTION_LABELS[item.action]}</span>
+                    <p className="text-slate-400 mt-0.5">{describeStatus(item)}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => setPreview(planAutoReplies(reviews, rules, languageFor, canAutoPost))}
+          disabled={!rules.some(r => r.enabled)}
+          className="flex items-center px-4 py-2 text-indigo-600 hover:bg-indigo-50 rounded-lg text-sm font-medium disabled:opacity-50"
+        >
+          <EyeIcon className="w-4 h-4 mr-1" /> Preview
+        </button>
+        <div className="flex space-x-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(rules)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+          >
+            Save Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { BrandVoice, BrandVoiceExample, BusinessProfile, GoogleReview } from '../types';
+import { MAX_VOICE_EXAMPLES, buildStyleProfile, getPastReplies, selectStyleSample, suggestExamples, toVoiceExample } from '../services/brandVoiceService';
+import { getErrorMessage } from '../services/googleApiErrors';
+import { StarIcon, SparklesIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+
+interface BrandVoicePanelProps {
+  businessProfile: BusinessProfile;
+  reviews: GoogleReview[];
+  onSave: (brandVoice: BrandVoice) => void;
+  onCancel: () => void;
+}
+
+export const BrandVoicePanel: React.FC<BrandVoicePanelProps> = ({ businessProfile, reviews, onSave, onCancel }) => {
+  const saved = businessProfile.brandVoice;
+  const [styleProfile, setStyleProfile] = useState(saved?.styleProfile || '');
+  const [examples, setExamples] = useState<BrandVoiceExample[]>(saved?.examples || []);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState('');
+
+  const pastReplies = getPastReplies(reviews);
+  const selectedIds = new Set(examples.map(e => e.reviewId));
+
+  const toggleExample = (review: GoogleReview) => {
+    if (selectedIds.has(review.id)) {
+      setExamples(examples.filter(e => e.reviewId !== review.id));
+    } else if (examples.length < MAX_VOICE_EXAMPLES) {
+      setExamples([...examples, toVoiceExample(review)]);
+    }
+  };
+
+  const analyzeStyle = async () => {
+    setAnalyzing(true);
+    setError('');
+    try {
+      setStyleProfile(await buildStyleProfile(businessProfile, pastReplies.map(r => r.replyContent!)));
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  // Examples may come from locations that are no longer connected, so keep those too
+  const missingExamples = examples.filter(e => !pastReplies.some(r => r.id === e.reviewId));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-slate-500">
+        Choose <strong>Brand Voice</strong> as the tone to write new replies the way your team already does.
+        The style profile describes your habits; the selected replies are shown to the AI as examples.
+      </p>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-xs font-bold text-slate-600 uppercase">Style Profile</label>
+          <button
+            onClick={analyzeStyle}
+            disabled={analyzing || pastReplies.length === 0}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center disabled:opacity-50"
+          >
+            {analyzing
+              ? <><ArrowPathIcon className="w-3 h-3 mr-1 animate-spin" /> Analyzing…</>
+              : <><SparklesIcon className="w-3 h-3 mr-1" /> Analyze {selectStyleSample(pastReplies.map(r => r.replyContent!)).length} past replies</>}
+          </button>
+        </div>
+        <textarea
+          rows={5}
+          value={styleProfile}
+          onChange={(e) => setStyleProfile(e.target.value)}
+          placeholder="Analyze your past replies, or describe your voice yourself."
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+        />
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="block text-xs font-bold text-slate-600 uppercase">
+            Example Replies ({examples.length}/{MAX_VOICE_EXAMPLES})
+          </label>
+          <button
+            onClick={() => setExamples(suggestExamples(reviews))}
+            disabled={pastReplies.length === 0}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+          >
+            Suggest examples
+          </button>
+        </div>
+
+        {pastReplies.length === 0 && missingExamples.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">No posted replies yet. Sync reviews that already have replies first.</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {missingExamples.map(example => (
+              <label key={example.reviewId} className="flex items-start p-3 space-x-3 bg-indigo-50/50 cursor-pointer">
+                <input type="checkbox" checked onChange={() => setExamples(examples.filter(e => e !== example))} className="mt-1" />
+                <ExampleText rating={example.rating} review={example.reviewContent} reply={example.replyContent} />
+              </label>
+            ))}
+            {pastReplies.map(review => (
+              <label
+                key={review.id}
+                className={`flex items-start p-3 space-x-3 cursor-pointer ${selectedIds.has(review.id) ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(review.id)}
+                  disabled={!selectedIds.has(review.id) && examples.length >= MAX_VOICE_EXAMPLES}
+                  onChange={() => toggleExample(review)}
+                  className="mt-1"
+                />
+                <ExampleText rating={review.rating} review={review.content} reply={review.replyContent!} />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ styleProfile: styleProfile.trim() || undefined, examples, updatedAt: new Date().toISOString() })}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+        >
+          Save Brand Voice
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ExampleText: React.FC<{ rating: number; review: string; reply: string }> = ({ rating, review, reply }) => (
+  <div className="min-w-0 text-sm">
+    <div className="flex items-center text-xs text-slate-500 mb-1">
+      <StarIcon className="w-3 h-3 text-amber-400 mr-1" /> {rating}
+      <span className="ml-2 truncate italic">{review || 'No text'}</span>
+    </div>
+    <p className="text-slate-700 line-clamp-3">{reply}</p>
+  </div>
+);
@@ -0,0 +1,99 @@
+import React from 'react';
+import { BulkDraftProgress, GoogleReview } from '../types';
+import { PauseIcon, PlayIcon, StopIcon, XMarkIcon, ExclamationTriangleIcon, CheckCircleIcon } from '@heroicons/react/24/solid';
+
+interface BulkDraftPanelProps {
+  progress: BulkDraftProgress;
+  task?: 'draft' | 'analyze';
+  reviews: GoogleReview[];
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const TASK_LABELS = {
+  draft: { verb: 'Drafting', running: 'Drafting replies...', done: 'drafted' },
+  analyze: { verb: 'Analysis', running: 'Analyzing reviews...', done: 'analyzed' }
+};
+
+export const BulkDraftPanel: React.FC<BulkDraftPanelProps> = ({ progress, task = 'draft', reviews, onPause, onResume, onCancel, onDismiss }) => {
+  const { state, items } = progress;
+  const labels = TASK_LABELS[task];
+  const count = (status: string) => items.filter(item => item.status === status).length;
+  const completed = count('done') + count('failed') + count('cancelled');
+  const percent = items.length > 0 ? Math.round((completed / items.length) * 100) : 100;
+  const failures = items.filter(item => item.status === 'failed');
+  const isActive = state === 'running' || state === 'paused';
+
+  const reviewerName = (reviewId: string) =>
+    reviews.find(r => r.id === reviewId)?.reviewerName || reviewId;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-indigo-100 p-4 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-sm font-semibold text-slate-800">
+          {state === 'running' && labels.running}
+          {state === 'paused' && `${labels.verb} paused`}
+          {state === 'cancelled' && `${labels.verb} cancelled`}
+          {state === 'finished' && `${labels.verb} finished`}
+          <span className="ml-2 font-normal text-slate-500">{completed} / {items.length}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {state === 'running' && (
+            <button onClick={onPause} className="flex items-center text-xs font-medium text-slate-600 hover:text-slate-900">
+              <PauseIcon className="w-4 h-4 mr-1" /> Pause
+            </button>
+          )}
+          {state === 'paused' && (
+            <button onClick={onResume} className="flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800">
+              <PlayIcon className="w-4 h-4 mr-1" /> Resume
+            </button>
+          )}
+          {isActive && (
+            <button onClick={onCancel} className="flex items-center text-xs font-medium text-red-600 hover:text-red-800">
+              <StopIcon className="w-4 h-4 mr-1" /> Cancel
+            </button>
+          )}
+          {!isActive && (
+            <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-300 ${failures.length > 0 ? 'bg-amber-500' : 'bg-indigo-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="flex space-x-4 mt-2 text-xs font-medium">
+        <span className="text-green-600">{count('done')} {labels.done}</span>
+        {count('running') > 0 && <span className="text-indigo-600">{count('running')} in progress</span>}
+        {count('rateLimited') > 0 && <span className="text-amber-600">{count('rateLimited')} rate-limited, retrying</span>}
+        {failures.length > 0 && <span className="text-red-600">{failures.length} failed</span>}
+        {count('cancelled') > 0 && <span className="text-slate-500">{count('cancelled')} skipped</span>}
+      </div>
+
+      {!isActive && (
+        failures.length > 0 ? (
+          <ul className="mt-3 space-y-1 text-xs text-red-700 bg-red-50 rounded-lg border border-red-100 p-3">
+            {failures.map(item => (
+              <li key={item.reviewId} className="flex items-start">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                <span><strong>{reviewerName(item.reviewId)}:</strong> {item.error}</span>
+              </li>
+            ))}
+          </ul>
+        ) : state === 'finished' && (
+          <p className="mt-3 text-xs text-green-700 flex items-center">
+            <CheckCircleIcon className="w-4 h-4 mr-1" /> Every review was {labels.done} successfully.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
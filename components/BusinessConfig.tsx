@@ -1,17 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { BusinessProfile } from '../types';
-import { initGoogleAuth, fetchAccounts, fetchLocations } from '../services/googleBusinessService';
-import { BuildingStorefrontIcon, ArrowPathIcon, KeyIcon, InformationCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { BusinessProfile, GoogleAccount, GoogleLocation } from '../types';
+import { initGoogleAuth, buildBusinessProfile, getTokenExpiry, setDemoMode, DEMO_ACCESS_TOKEN } from '../services/googleBusinessService';
+import { LocationPicker } from './LocationPicker';
+import { BuildingStorefrontIcon, ArrowPathIcon, KeyIcon, InformationCircleIcon, ExclamationTriangleIcon, BeakerIcon } from '@heroicons/react/24/outline';
 
 interface BusinessConfigProps {
   onConnect: (profile: BusinessProfile) => void;
+  notice?: string;
 }
 
-export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect }) => {
+export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect, notice }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [clientId, setClientId] = useState('');
   const [error, setError] = useState('');
   const [originWarning, setOriginWarning] = useState('');
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | undefined>();
+  const [isDemo, setIsDemo] = useState(false);
 
   // Load saved Client ID on mount
   useEffect(() => {
@@ -45,9 +50,11 @@ export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect }) =>
     setIsLoading(true);
 
     try {
-      const tokenClient = initGoogleAuth(cleanClientId, async (tokenResponse: any) => {
+      const tokenClient = initGoogleAuth(cleanClientId, (tokenResponse: any) => {
         if (tokenResponse && tokenResponse.access_token) {
-          await fetchBusinessData(tokenResponse.access_token);
+          setAccessToken(tokenResponse.access_token);
+          setTokenExpiresAt(getTokenExpiry(tokenResponse));
+          setIsLoading(false);
         } else {
           console.error("Token response error:", tokenResponse);
           // Check for common error where user closes the popup
@@ -73,48 +80,53 @@ export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect }) =>
     }
   };
 
-  const fetchBusinessData = async (accessToken: string) => {
-    try {
-      // 1. Get Accounts
-      const accountsData = await fetchAccounts(accessToken);
-      
-      if (!accountsData.accounts || accountsData.accounts.length === 0) {
-        throw new Error("No Google Business accounts found. Ensure your Google account manages a business.");
-      }
-      
-      const account = accountsData.accounts[0]; // Pick first account for simplicity
-
-      // 2. Get Locations
-      const locationsData = await fetchLocations(accessToken, account.name);
-      
-      if (!locationsData.locations || locationsData.locations.length === 0) {
-        throw new Error("No verified locations found for this account.");
-      }
-      
-      const location = locationsData.locations[0]; // Pick first location
+  const handleSelectLocations = (account: GoogleAccount, locations: GoogleLocation[]) => {
+    if (!accessToken) return;
+    const profile = buildBusinessProfile(accessToken, account, locations);
+    if (isDemo) {
+      // The offline provider keeps the demo free of any Google credentials, including the Gemini key
+      onConnect({ ...profile, isDemo: true, llm: { provider: 'fake', model: 'fake-1', settings: { temperature: 0 } } });
+    } else {
+      onConnect({ ...profile, tokenExpiresAt });
+    }
+  };
 
-      const profile: BusinessProfile = {
-        name: location.title || "My Business",
-        accountId: account.name,
-        locationId: location.name,
-        accessToken: accessToken,
-        isConnected: true
-      };
+  const handleStartDemo = () => {
+    setDemoMode(true);
+    setIsDemo(true);
+    setError('');
+    setAccessToken(DEMO_ACCESS_TOKEN);
+  };
 
-      onConnect(profile);
-    } catch (err: any) {
-      console.error(err);
-      // specific error handling for 403
-      if (err.message && err.message.includes('403')) {
-        setError("Access Denied (403). Did you add your email to 'Test Users' in OAuth Consent Screen?");
-      } else {
-        setError(err.message || "Failed to fetch business profile data.");
-      }
-    } finally {
-      setIsLoading(false);
+  const handleCancelPicker = () => {
+    if (isDemo) {
+      setDemoMode(false);
+      setIsDemo(false);
     }
+    setAccessToken(null);
   };
 
+  if (accessToken) {
+    return (
+      <div className="w-full max-w-lg mx-auto bg-white rounded-2xl shadow-xl p-8 border border-slate-100 animate-fade-in-up">
+        <div className="text-center mb-6">
+          <div className="mx-auto w-16 h-16 bg-blue-50 rounded-full flex items-center justify-center mb-4">
+            <BuildingStorefrontIcon className="w-8 h-8 text-blue-600" />
+          </div>
+          <h2 className="text-2xl font-bold text-slate-800 mb-2">Choose a Location</h2>
+          <p className="text-slate-500 text-sm px-4">
+            Select the business account and the location, or several locations, whose reviews you want to manage.
+          </p>
+        </div>
+        <LocationPicker
+          accessToken={accessToken}
+          onSelect={handleSelectLocations}
+          onCancel={handleCancelPicker}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-lg mx-auto bg-white rounded-2xl shadow-xl p-8 border border-slate-100 text-center animate-fade-in-up">
       <div className="mx-auto w-20 h-20 bg-blue-50 rounded-full flex items-center justify-center mb-6">
@@ -130,6 +142,13 @@ export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect }) =>
         Enter your OAuth 2.0 Client ID to connect your real business profile and manage reviews directly.
       </p>
 
+      {notice && !error && (
+        <div className="mb-6 p-4 bg-blue-50 text-blue-800 text-xs rounded-xl text-left border border-blue-100 flex items-start">
+           <InformationCircleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+           <span>{notice}</span>
+        </div>
+      )}
+
       {originWarning && (
         <div className="mb-6 p-4 bg-amber-50 text-amber-800 text-xs rounded-xl text-left border border-amber-100 flex items-start">
            <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
@@ -175,6 +194,18 @@ export const BusinessConfig: React.FC<BusinessConfigProps> = ({ onConnect }) =>
         <span>{isLoading ? 'Connecting...' : 'Sign in & Connect'}</span>
       </button>
 
+      <button
+        onClick={handleStartDemo}
+        disabled={isLoading}
+        className="w-full mt-3 flex items-center justify-center space-x-2 text-violet-700 hover:bg-violet-50 border border-violet-200 font-semibold py-2.5 px-6 rounded-xl transition duration-200 disabled:opacity-70"
+      >
+        <BeakerIcon className="w-5 h-5" />
+        <span>Try Demo Mode</span>
+      </button>
+      <p className="text-[10px] text-slate-400 mt-1">
+        Uses sample businesses and reviews from the local mock server. No Google account needed.
+      </p>
+
       <div className="mt-8 text-xs text-slate-500 bg-slate-50 p-4 rounded-xl border border-slate-100 text-left">
         <strong className="block text-slate-700 mb-1">Setup Checklist for "Invalid Request" errors:</strong>
         <ul className="list-disc list-inside space-y-1">
@@ -1,105 +1,1168 @@
-import React, { useState, useEffect } from 'react';
-import { BusinessProfile, GoogleReview, Tone, Language } from '../types';
-import { fetchGoogleReviews, postReplyToGoogle } from '../services/googleBusinessService';
-import { generateReviewReply } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AutoReplyRecord, BusinessProfile, DraftVariantStyle, GenerateReplyParams, ReviewStatus, CachedTranslation, GoogleReview, ReplyTemplate, ReviewFilterPreset, ReviewQuery, Tone, Language, GoogleAccount, GoogleLocation, ReviewSyncProgress, LocationSyncState, BulkDraftProgress, PostQueueItem, TeamMember } from '../types';
+import { fetchGoogleReview, fetchGoogleReviews, postReplyToGoogle, deleteReplyFromGoogle, buildBusinessProfile, getConnectedLocations, mergeReviews, hasReviewText } from '../services/googleBusinessService';
+import { generateReviewReply, refineReply } from '../services/geminiService';
+import { ConflictError, GoogleApiError, getErrorMessage } from '../services/googleApiErrors';
+import { BulkDraftJob, createBulkDraftJob } from '../services/bulkDraftJob';
+import { PostQueue, createPostQueue } from '../services/postQueue';
+import { getStoredReviews, saveReviews, deleteReviews, getSyncState, saveSyncState, withDraftRevision, canUndoDraft, canRedoDraft, stepDraftRevision } from '../services/reviewStore';
+import { matchTemplate } from '../services/templateService';
+import { detectLanguage, splitGoogleTranslation } from '../services/languageService';
+import { DEFAULT_WORKING_LANGUAGE, isTranslationCurrent, translateText } from '../services/translationService';
+import { REVIEW_TOPICS, analyzeReview, isAnalysisCurrent } from '../services/analysisService';
+import { AUTO_REPLY_RECORD_LABELS, planAutoReplies } from '../services/autoReplyEngine';
+import {
+  STATUS_LABELS,
+  addComment,
+  approveDraft,
+  canApprove,
+  getActiveMember,
+  isWorkflowEnabled,
+  rejectDraft,
+  requestChanges,
+  requiredApprovals,
+  setActiveMember,
+  submitForReview
+} from '../services/approvalWorkflow';
+import { applySharedWorkflow, fetchSharedWorkflow, hasWorkflowChange, saveSharedTeam, shareReviewWorkflow } from '../services/teamWorkflow';
+import { checkReply, describeBlockingFindings, hasBlockingFindings } from '../services/replyGuardrails';
+import { DEFAULT_VARIANT_STYLES, generateDraftVariant } from '../services/draftVariants';
+import { DEFAULT_REVIEW_QUERY, applyReviewQuery, isQueryFiltered, loadFilterPresets, saveFilterPresets } from '../services/reviewQuery';
 import { 
   StarIcon, 
   ArrowPathIcon, 
-  CheckCircleIcon, 
   PaperAirplaneIcon, 
   SparklesIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ArrowsRightLeftIcon,
+  MapPinIcon,
+  Cog6ToothIcon,
+  BookOpenIcon,
+  ChatBubbleLeftRightIcon,
+  DocumentDuplicateIcon,
+  BoltIcon,
+  UserGroupIcon,
+  ShieldCheckIcon,
+  Squares2X2Icon,
+  LanguageIcon,
+  ChartBarIcon,
+  InboxIcon,
+  PresentationChartLineIcon,
+  XMarkIcon
 } from '@heroicons/react/24/solid';
+import { LocationPicker } from './LocationPicker';
+import { LocationStats } from './LocationStats';
+import { PostedReply } from './PostedReply';
+import { BulkDraftPanel } from './BulkDraftPanel';
+import { OutgoingQueuePanel } from './OutgoingQueuePanel';
+import { AiSettings } from './AiSettings';
+import { KnowledgeBaseEditor } from './KnowledgeBaseEditor';
+import { BrandVoicePanel } from './BrandVoicePanel';
+import { TemplateLibraryEditor } from './TemplateLibraryEditor';
+import { AutoReplyRulesEditor } from './AutoReplyRulesEditor';
+import { TeamEditor } from './TeamEditor';
+import { ApprovalPanel } from './ApprovalPanel';
+import { ReplyGuardrails } from './ReplyGuardrails';
+import { DraftVariantsPanel } from './DraftVariantsPanel';
+import { DraftRefiner } from './DraftRefiner';
+import { GuardrailSettings } from './GuardrailSettings';
+import { ReviewAnalysisChips } from './ReviewAnalysisChips';
+import { DemoControls } from './DemoControls';
+import { Analytics } from './Analytics';
+import { ReviewFilterBar } from './ReviewFilterBar';
+import { VirtualList } from './VirtualList';
 
 interface DashboardProps {
   businessProfile: BusinessProfile;
   onLogout: () => void;
+  onUpdateProfile: (profile: BusinessProfile) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout }) => {
+const REVIEW_PAGE_SIZE = 50;
+// Replies posted, edited or deleted elsewhere don't always change a review's updateTime, so an
+// incremental sync misses them; each location goes through its whole history at least this often
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const BULK_DRAFT_CONCURRENCY = 3;
+const ANALYSIS_CONCURRENCY = 2;
+const DEFAULT_UNDO_WINDOW_SECONDS = 30;
+
+// Replies still waiting when the app closed are never sent automatically on the next visit
+const loadSavedQueue = (): PostQueueItem[] => {
+  try {
+    const saved: PostQueueItem[] = JSON.parse(localStorage.getItem('postQueue') || '[]');
+    return saved.map(item => item.status === 'failed' ? item : {
+      ...item,
+      status: 'failed',
+      error: "Not sent: the app was closed before this reply was posted."
+    });
+  } catch (e) {
+    return [];
+  }
+};
+
+type LocationRating = Pick<LocationSyncState, 'averageRating' | 'totalReviewCount'>;
+
+// Settings panels that open below the header, one at a time
+type SettingsPanel = 'locations' | 'ai' | 'knowledge' | 'voice' | 'templates' | 'autoReply' | 'team' | 'guardrails';
+
+type TranslationTarget = 'review' | 'draft';
+
+type DashboardView = 'inbox' | 'analytics';
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'bg-red-100 text-red-600',
+  drafted: 'bg-amber-100 text-amber-600',
+  in_review: 'bg-blue-100 text-blue-600',
+  needs_changes: 'bg-orange-100 text-orange-700',
+  approved: 'bg-teal-100 text-teal-700',
+  rejected: 'bg-slate-200 text-slate-600',
+  replied: 'bg-green-100 text-green-600'
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout, onUpdateProfile }) => {
   const [reviews, setReviews] = useState<GoogleReview[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [processingIds, setProcessingIds] = useState<string[]>([]);
+  const [reviewErrors, setReviewErrors] = useState<Record<string, string>>({});
+  const [openPanel, setOpenPanel] = useState<SettingsPanel | null>(null);
+  const [view, setView] = useState<DashboardView>('inbox');
+  // Demo mode lets you switch between members; otherwise you are the member with your Google email
+  const [activeMemberId, setActiveMemberId] = useState(() => getActiveMember(businessProfile)?.id);
+  // Verified by the workflow server from the Google sign-in
+  const [signedInEmail, setSignedInEmail] = useState<string | undefined>();
+  const [notOnTeam, setNotOnTeam] = useState(false);
+  const [workflowError, setWorkflowError] = useState<string | null>(null);
+  // Translations being shown or fetched, keyed `${reviewId}:review` or `${reviewId}:draft`
+  const [openTranslations, setOpenTranslations] = useState<string[]>([]);
+  const [translatingKeys, setTranslatingKeys] = useState<string[]>([]);
+  // Draft variants being regenerated one by one, keyed `${reviewId}:${index}`
+  const [regeneratingVariants, setRegeneratingVariants] = useState<string[]>([]);
+  // Per-review template picked by hand: a template id, or 'none'. Missing means the rules decide.
+  const [templateChoices, setTemplateChoices] = useState<Record<string, string>>({});
+  const [locationFilter, setLocationFilter] = useState('');
+  const [syncing, setSyncing] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<Record<string, ReviewSyncProgress>>({});
+  const [locationRatings, setLocationRatings] = useState<Record<string, LocationRating>>({});
+  const [bulkProgress, setBulkProgress] = useState<BulkDraftProgress | null>(null);
+  const bulkJobRef = useRef<BulkDraftJob | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<BulkDraftProgress | null>(null);
+  const analysisJobRef = useRef<BulkDraftJob | null>(null);
+  const [query, setQuery] = useState<ReviewQuery>(DEFAULT_REVIEW_QUERY);
+  const [filterPresets, setFilterPresets] = useState<ReviewFilterPreset[]>(loadFilterPresets);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [autoReplyNotice, setAutoReplyNotice] = useState<string | null>(null);
+  const autoReplyRunningRef = useRef(false);
+  const [queueItems, setQueueItems] = useState<PostQueueItem[]>(loadSavedQueue);
+  const [undoWindowSeconds, setUndoWindowSeconds] = useState(
+    () => Number(localStorage.getItem('post_undo_window')) || DEFAULT_UNDO_WINDOW_SECONDS
+  );
+  const postQueueRef = useRef<PostQueue | null>(null);
+  const sendQueuedRef = useRef<(item: PostQueueItem) => Promise<void>>(async () => {});
   
   // Settings
   const [tone, setTone] = useState<Tone>(Tone.Professional);
+  // Used for reviews whose language can't be detected, e.g. rating-only reviews
   const [language, setLanguage] = useState<Language>(Language.Vietnamese);
 
+  const togglePanel = (panel: SettingsPanel) => setOpenPanel(openPanel === panel ? null : panel);
+
+  const workingLanguage = businessProfile.workingLanguage || DEFAULT_WORKING_LANGUAGE;
+
+  // With a team set up, replies are posted only by approvers and only once approved
+  const workflow = isWorkflowEnabled(businessProfile) || notOnTeam;
+  const member = notOnTeam ? undefined : businessProfile.isDemo
+    ? businessProfile.team?.find(m => m.id === activeMemberId) || getActiveMember(businessProfile)
+    : getActiveMember(businessProfile, signedInEmail);
+  const canPost = !workflow || (!!member && canApprove(member));
+  const isAdmin = member?.role === 'admin';
+  // Outside demo mode, approvals and comments are shared with the team through the server
+  const isShared = workflow && !businessProfile.isDemo;
+  const isReadyToPost = (review: GoogleReview) => !workflow || review.status === 'approved';
+  // Rules only post from the session of someone who may post; for anyone else they queue the reply
+  const canAutoPost = (review: GoogleReview) => canPost && (!workflow || requiredApprovals(review) === 1);
+
+  const handleMemberChange = (memberId: string) => {
+    setActiveMember(memberId);
+    setActiveMemberId(memberId);
+    setSelectedIds([]);
+  };
+
+  const locations = getConnectedLocations(businessProfile);
+  const isMultiLocation = locations.length > 1;
+  const locationKey = locations.map(l => l.locationId).join(',');
+
+  const visibleReviews = applyReviewQuery(
+    reviews.filter(r => !locationFilter || r.locationId === locationFilter),
+    query
+  );
+
+  // Token renewals replace accessToken, so only a location change reloads the inbox
   useEffect(() => {
     if (businessProfile.accessToken) {
-      loadReviews();
+      setLocationFilter('');
+      loadInbox();
     }
-  }, [businessProfile.accessToken]);
+  }, [locationKey]);
 
-  const loadReviews = async () => {
-    setLoading(true);
-    setError(null);
+  /**
+   * Shows locally stored reviews and drafts straight away, then syncs with Google.
+   * Locations synced before only fetch what changed since then.
+   */
+  const loadInbox = async () => {
     try {
-      // Use the real service
-      const data = await fetchGoogleReviews(businessProfile.accessToken, businessProfile.locationId);
-      setReviews(data);
-    } catch (e: any) {
+      const [cached, syncStates] = await Promise.all([
+        getStoredReviews(locations.map(l => l.locationId)),
+        Promise.all(locations.map(l => getSyncState(l.locationId)))
+      ]);
+      setReviews(mergeReviews(cached, []));
+      setLocationRatings(Object.fromEntries(
+        syncStates.filter((s): s is LocationSyncState => !!s).map(s => [s.locationId, s])
+      ));
+      await loadReviews(cached.length > 0 && syncStates.every(Boolean));
+    } catch (e) {
+      // Storage can be unavailable (e.g. private browsing); fall back to a plain sync
       console.error(e);
-      setError(e.message || "Failed to load reviews. Check console for details.");
+      await loadReviews();
+    }
+  };
+
+  /**
+   * Full sync replaces the list; incremental sync only fetches reviews created or updated
+   * since each location's last successful sync, unless its last full sync is a day old.
+   */
+  const loadReviews = async (incremental = false) => {
+    if (incremental) {
+      setSyncing(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+    setSyncProgress({});
+    try {
+      const syncStates = incremental
+        ? await Promise.all(locations.map(l => getSyncState(l.locationId).catch(() => undefined)))
+        : [];
+      const since = syncStates.map(state =>
+        state?.lastFullSync && Date.now() - Date.parse(state.lastFullSync) < FULL_SYNC_INTERVAL_MS ? state.lastSync : undefined
+      );
+
+      // Fetch every connected location in parallel and merge into one inbox
+      const results = await Promise.allSettled(
+        locations.map((l, i) => fetchGoogleReviews(businessProfile.accessToken, l.locationId, {
+          pageSize: REVIEW_PAGE_SIZE,
+          since: since[i],
+          onProgress: (progress) => setSyncProgress(prev => ({ ...prev, [l.locationId]: progress }))
+        }))
+      );
+
+      const fetched: GoogleReview[] = [];
+      const ratings: Record<string, LocationRating> = {};
+      const newSyncStates: LocationSyncState[] = [];
+      const fullySyncedIds = new Set<string>();
+      const failed: string[] = [];
+      results.forEach((result, i) => {
+        const locationId = locations[i].locationId;
+        if (result.status === 'fulfilled') {
+          fetched.push(...result.value.reviews);
+          ratings[locationId] = {
+            averageRating: result.value.averageRating,
+            totalReviewCount: result.value.totalReviewCount
+          };
+          newSyncStates.push({
+            locationId,
+            lastSync: result.value.syncedAt,
+            lastFullSync: since[i] ? syncStates[i]!.lastFullSync : result.value.syncedAt,
+            ...ratings[locationId]
+          });
+          if (!since[i]) fullySyncedIds.add(locationId);
+        } else {
+          console.error(result.reason);
+          failed.push(locations[i].title);
+        }
+      });
+
+      // Read the store after fetching so drafts edited during the sync are not lost
+      const stored = await getStoredReviews(locations.map(l => l.locationId)).catch(() => [] as GoogleReview[]);
+      const fetchedIds = new Set(fetched.map(r => r.id));
+      // A full sync drops reviews that no longer exist on Google
+      const kept = stored.filter(r => !fullySyncedIds.has(r.locationId) || fetchedIds.has(r.id));
+      const merged = mergeReviews(kept, fetched);
+
+      setReviews(merged);
+      setLocationRatings(prev => ({ ...prev, ...ratings }));
+      refreshWorkflow();
+      runAutoReplies(merged);
+
+      Promise.all([
+        saveReviews(merged.filter(r => fetchedIds.has(r.id))),
+        deleteReviews(stored.filter(r => !kept.includes(r)).map(r => r.id)),
+        ...newSyncStates.map(saveSyncState)
+      ]).catch(e => console.error("Failed to persist reviews:", e));
+
+      if (failed.length === locations.length) {
+        setError(getErrorMessage((results[0] as PromiseRejectedResult).reason));
+      } else if (failed.length > 0) {
+        setError(`Failed to load reviews for: ${failed.join(', ')}.`);
+      }
     } finally {
       setLoading(false);
+      setSyncing(false);
+    }
+  };
+
+  /**
+   * Loads the team, who is signed in and the review states the team shared
+   */
+  const refreshWorkflow = async () => {
+    if (businessProfile.isDemo) return;
+    try {
+      const shared = await fetchSharedWorkflow(businessProfile);
+      setSignedInEmail(shared.email);
+      setNotOnTeam(false);
+      setWorkflowError(null);
+      if (JSON.stringify(shared.team) !== JSON.stringify(businessProfile.team || [])) {
+        onUpdateProfile({ ...businessProfile, team: shared.team });
+      }
+      setReviews(prev => {
+        const next = prev.map(r => applySharedWorkflow(r, shared.reviews[r.id]));
+        saveReviews(next.filter((r, i) => r !== prev[i])).catch(e => console.error("Failed to save reviews:", e));
+        return next;
+      });
+    } catch (e) {
+      console.error(e);
+      setNotOnTeam(e instanceof GoogleApiError && e.reason === 'WORKFLOW_NOT_A_MEMBER');
+      setWorkflowError(getErrorMessage(e));
+    }
+  };
+
+  /**
+   * Sends a decision, approval or comment to the team. A change the server refuses is undone here too.
+   */
+  const shareReview = async (previous: GoogleReview, review: GoogleReview) => {
+    try {
+      const state = await shareReviewWorkflow(businessProfile, review);
+      patchReview(review.id, { workflowUpdatedAt: state.updatedAt });
+    } catch (e) {
+      console.error(e);
+      setReviewError(review.id, getErrorMessage(e));
+      const reason = e instanceof GoogleApiError ? e.reason : undefined;
+      if (reason === 'WORKFLOW_CONFLICT') {
+        refreshWorkflow();
+      } else if (reason?.startsWith('WORKFLOW_')) {
+        // Not through patchReview: undoing the refused change must not share it again
+        setReviews(prev => prev.map(r => {
+          if (r.id !== review.id) return r;
+          const restored = { ...r, status: previous.status, approvals: previous.approvals, comments: previous.comments };
+          saveReviews([restored]).catch(e => console.error("Failed to save review:", e));
+          return restored;
+        }));
+      }
+    }
+  };
+
+  // Reviews whose approval state changed here, with the state before; shared once the change renders
+  const unsharedRef = useRef(new Map<string, GoogleReview>());
+
+  // Called from state updaters, which React may run twice: the first state before the change is kept
+  const noteWorkflowChange = (previous: GoogleReview, next: GoogleReview) => {
+    if (isShared && hasWorkflowChange(previous, next) && !unsharedRef.current.has(next.id)) {
+      unsharedRef.current.set(next.id, previous);
+    }
+  };
+
+  useEffect(() => {
+    for (const [id, previous] of unsharedRef.current) {
+      unsharedRef.current.delete(id);
+      const review = reviews.find(r => r.id === id);
+      if (review && hasWorkflowChange(previous, review)) shareReview(previous, review);
+    }
+  }, [reviews]);
+
+  /**
+   * Updates a review in the list and persists it locally
+   */
+  const updateReview = (review: GoogleReview) => {
+    setReviews(prev => prev.map(r => {
+      if (r.id !== review.id) return r;
+      noteWorkflowChange(r, review);
+      return review;
+    }));
+    saveReviews([review]).catch(e => console.error("Failed to save review:", e));
+  };
+
+  // For results of slow background calls: merged into the latest state so edits made meanwhile survive
+  const patchReview = (id: string, changes: Partial<GoogleReview> | ((review: GoogleReview) => Partial<GoogleReview>)) => {
+    setReviews(prev => prev.map(r => {
+      if (r.id !== id) return r;
+      const updated = { ...r, ...(typeof changes === 'function' ? changes(r) : changes) };
+      noteWorkflowChange(r, updated);
+      saveReviews([updated]).catch(e => console.error("Failed to save review:", e));
+      return updated;
+    }));
+  };
+
+  const progressValues = Object.values(syncProgress) as ReviewSyncProgress[];
+  const syncedCount = progressValues.reduce((sum, p) => sum + p.fetched, 0);
+  const syncTotal = progressValues.length === locations.length && progressValues.every(p => p.total !== undefined)
+    ? progressValues.reduce((sum, p) => sum + (p.total || 0), 0)
+    : undefined;
+
+  // Header rating covers the filtered location, or all locations weighted by review count
+  const headerRatings = (locationFilter ? [locationRatings[locationFilter]] : Object.values(locationRatings))
+    .filter((r): r is LocationRating => !!r && r.totalReviewCount !== undefined);
+  const totalReviewCount = headerRatings.reduce((sum, r) => sum + (r.totalReviewCount || 0), 0);
+  const averageRating = totalReviewCount > 0
+    ? headerRatings.reduce((sum, r) => sum + (r.averageRating || 0) * (r.totalReviewCount || 0), 0) / totalReviewCount
+    : undefined;
+
+  const setReviewError = (id: string, message?: string) => {
+    setReviewErrors(prev => {
+      const next = { ...prev };
+      if (message) next[id] = message;
+      else delete next[id];
+      return next;
+    });
+  };
+
+  const locationTitle = (locationId: string) =>
+    locations.find(l => l.locationId === locationId)?.title || locationId;
+
+  const startProcessing = (id: string) => setProcessingIds(prev => [...prev, id]);
+  const stopProcessing = (id: string) => setProcessingIds(prev => prev.filter(p => p !== id));
+  const isProcessing = (id: string) => processingIds.includes(id);
+
+  const templates = businessProfile.templateLibrary?.templates || [];
+
+  // Reviews cached before language detection existed are detected on the fly until the next full sync
+  const detectedLanguageFor = (review: GoogleReview) =>
+    review.language || detectLanguage(splitGoogleTranslation(review.content).original);
+
+  const replyLanguageFor = (review: GoogleReview) => review.replyLanguage || detectedLanguageFor(review) || language;
+
+  const handleReplyLanguageChange = (review: GoogleReview, value: Language) => {
+    updateReview({ ...review, replyLanguage: value === detectedLanguageFor(review) ? undefined : value });
+  };
+
+  const translationSource = (review: GoogleReview, target: TranslationTarget) =>
+    target === 'review' ? review.content : review.replyContent || '';
+
+  const cachedTranslation = (review: GoogleReview, target: TranslationTarget): CachedTranslation | undefined =>
+    target === 'review' ? review.reviewTranslation : review.draftTranslation;
+
+  /**
+   * Translates the review or the draft into the owner's working language and caches it on the review
+   */
+  const fetchTranslation = async (review: GoogleReview, target: TranslationTarget) => {
+    const key = `${review.id}:${target}`;
+    setTranslatingKeys(prev => [...prev, key]);
+    setReviewError(review.id);
+    try {
+      const translation = await translateText(businessProfile, translationSource(review, target), workingLanguage);
+      patchReview(review.id, target === 'review' ? { reviewTranslation: translation } : { draftTranslation: translation });
+      setOpenTranslations(prev => prev.includes(key) ? prev : [...prev, key]);
+    } catch (e) {
+      console.error(e);
+      setReviewError(review.id, getErrorMessage(e));
+    } finally {
+      setTranslatingKeys(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  const toggleTranslation = (review: GoogleReview, target: TranslationTarget) => {
+    const key = `${review.id}:${target}`;
+    if (openTranslations.includes(key)) {
+      setOpenTranslations(prev => prev.filter(k => k !== key));
+    } else if (isTranslationCurrent(cachedTranslation(review, target), translationSource(review, target), workingLanguage)) {
+      setOpenTranslations(prev => [...prev, key]);
+    } else {
+      fetchTranslation(review, target);
+    }
+  };
+
+  const renderTranslation = (review: GoogleReview, target: TranslationTarget) => {
+    const key = `${review.id}:${target}`;
+    const cached = cachedTranslation(review, target);
+    if (!openTranslations.includes(key) || !cached) return null;
+    const current = isTranslationCurrent(cached, translationSource(review, target), workingLanguage);
+
+    return (
+      <div className="mt-2 p-3 bg-indigo-50/60 border border-indigo-100 rounded-lg text-sm">
+        <div className="flex items-center justify-between text-xs text-indigo-700 font-semibold mb-1">
+          <span className="flex items-center">
+            <LanguageIcon className="w-3 h-3 mr-1" />
+            {target === 'review' ? `Translated to ${cached.language}` : `Your draft in ${cached.language}`}
+          </span>
+          {!current && (
+            <button
+              onClick={() => fetchTranslation(review, target)}
+              disabled={translatingKeys.includes(key)}
+              className="flex items-center hover:underline disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-3 h-3 mr-1 ${translatingKeys.includes(key) ? 'animate-spin' : ''}`} />
+              {target === 'draft' ? 'Draft changed, update' : 'Update'}
+            </button>
+          )}
+        </div>
+        <p className={current ? 'text-slate-700' : 'text-slate-400'}>{cached.text}</p>
+      </div>
+    );
+  };
+
+  const renderTranslationToggle = (review: GoogleReview, target: TranslationTarget, label: string) => {
+    const key = `${review.id}:${target}`;
+    return (
+      <button
+        onClick={() => toggleTranslation(review, target)}
+        disabled={translatingKeys.includes(key)}
+        className="text-xs text-indigo-600 hover:underline flex items-center disabled:opacity-50"
+      >
+        {translatingKeys.includes(key)
+          ? <ArrowPathIcon className="w-3 h-3 mr-1 animate-spin" />
+          : <LanguageIcon className="w-3 h-3 mr-1" />}
+        {openTranslations.includes(key) ? 'Hide translation' : label}
+      </button>
+    );
+  };
+
+  const templateFor = (review: GoogleReview) => {
+    const choice = templateChoices[review.id];
+    if (choice === 'none') return undefined;
+    if (choice) return templates.find(t => t.id === choice);
+    return matchTemplate(businessProfile.templateLibrary, review, replyLanguageFor(review));
+  };
+
+  const replyParamsFor = (review: GoogleReview, template: ReplyTemplate | undefined): GenerateReplyParams => ({
+    businessProfile,
+    review: {
+      reviewerName: review.reviewerName,
+      rating: review.rating,
+      content: review.content
+    },
+    locationId: review.locationId,
+    template,
+    analysis: isAnalysisCurrent(review.analysis, review.content) ? review.analysis : undefined,
+    tone,
+    language: replyLanguageFor(review)
+  });
+
+  /**
+   * Generates and saves a draft, from a template when one applies, and resolves to its text.
+   * Throws on failure so callers decide how to report it.
+   */
+  const draftReview = async (review: GoogleReview, template: ReplyTemplate | undefined = templateFor(review)) => {
+    startProcessing(review.id);
+    setReviewError(review.id);
+    try {
+      const reply = await generateReviewReply(replyParamsFor(review, template));
+      patchReview(review.id, r => withDraftRevision(r, reply, template?.mode === 'reply' ? 'template' : 'ai'));
+      return reply;
+    } finally {
+      stopProcessing(review.id);
     }
   };
 
   const generateReply = async (review: GoogleReview) => {
-    setProcessingId(review.id);
     try {
-      const reply = await generateReviewReply({
+      await draftReview(review);
+    } catch (e) {
+      console.error(e);
+      setReviewError(review.id, getErrorMessage(e));
+    }
+  };
+
+  const refineDraft = async (review: GoogleReview, instruction: string) => {
+    startProcessing(review.id);
+    setReviewError(review.id);
+    try {
+      const revised = await refineReply({
         businessProfile,
         review: {
           reviewerName: review.reviewerName,
           rating: review.rating,
           content: review.content
         },
-        tone,
-        language
+        locationId: review.locationId,
+        draft: review.replyContent,
+        instruction,
+        language: replyLanguageFor(review)
       });
+      patchReview(review.id, r => withDraftRevision(r, revised, 'refine'));
+    } catch (e) {
+      console.error(e);
+      setReviewError(review.id, getErrorMessage(e));
+    } finally {
+      stopProcessing(review.id);
+    }
+  };
 
-      setReviews(prev => prev.map(r => 
-        r.id === review.id ? { ...r, status: 'drafted', replyContent: reply } : r
-      ));
+  // A template used as the reply would make every variant the same, so variants only take skeletons
+  const variantParamsFor = (review: GoogleReview) => {
+    const template = templateFor(review);
+    return replyParamsFor(review, template?.mode === 'skeleton' ? template : undefined);
+  };
+
+  /**
+   * Generates the default set of variants, or regenerates the styles already shown
+   */
+  const generateVariants = async (review: GoogleReview) => {
+    const styles = review.draftVariants?.map(v => v.style) || DEFAULT_VARIANT_STYLES;
+    startProcessing(review.id);
+    setReviewError(review.id);
+    try {
+      const results = await Promise.allSettled(styles.map(style => generateDraftVariant(variantParamsFor(review), style)));
+      const variants = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) {
+        console.error(failed.reason);
+        setReviewError(review.id, variants.length
+          ? `${results.length - variants.length} of ${results.length} variants failed: ${getErrorMessage(failed.reason)}`
+          : getErrorMessage(failed.reason));
+      }
+      if (variants.length) patchReview(review.id, { draftVariants: variants });
+    } finally {
+      stopProcessing(review.id);
+    }
+  };
+
+  const regenerateVariant = async (review: GoogleReview, index: number, style: DraftVariantStyle) => {
+    const key = `${review.id}:${index}`;
+    setRegeneratingVariants(prev => [...prev, key]);
+    setReviewError(review.id);
+    try {
+      const variant = await generateDraftVariant(variantParamsFor(review), style);
+      patchReview(review.id, r => ({ draftVariants: (r.draftVariants || []).map((v, i) => i === index ? variant : v) }));
     } catch (e) {
       console.error(e);
-      alert("AI Generation failed.");
+      setReviewError(review.id, getErrorMessage(e));
     } finally {
-      setProcessingId(null);
+      setRegeneratingVariants(prev => prev.filter(k => k !== key));
     }
   };
 
-  const autoGenerateAll = async () => {
-    const pendingReviews = reviews.filter(r => r.status === 'pending');
-    for (const review of pendingReviews) {
-      await generateReply(review);
+  // The styles are kept in the draft history, which is what the analytics count as the team's preference
+  const chooseVariant = (review: GoogleReview, content: string, styles: DraftVariantStyle[]) => {
+    updateReview({ ...withDraftRevision(review, content, 'variant', styles), draftVariants: undefined });
+  };
+
+  const autoGenerateAll = () => {
+    const pendingReviews = new Map<string, GoogleReview>(
+      visibleReviews.filter(r => r.status === 'pending').map(r => [r.id, r])
+    );
+    bulkJobRef.current = createBulkDraftJob(
+      [...pendingReviews.keys()],
+      async (reviewId) => { await draftReview(pendingReviews.get(reviewId)!); },
+      { concurrency: BULK_DRAFT_CONCURRENCY, onUpdate: setBulkProgress }
+    );
+  };
+
+  const isBulkActive = bulkProgress?.state === 'running' || bulkProgress?.state === 'paused';
+
+  const unanalyzedReviews = reviews.filter(r => !isAnalysisCurrent(r.analysis, r.content));
+  const isAnalysisActive = analysisProgress?.state === 'running' || analysisProgress?.state === 'paused';
+
+  /**
+   * Analyzes every review without a current analysis, across all connected locations
+   */
+  const analyzeAll = () => {
+    const pending = new Map<string, GoogleReview>(unanalyzedReviews.map(r => [r.id, r]));
+    analysisJobRef.current = createBulkDraftJob(
+      [...pending.keys()],
+      async (reviewId) => {
+        const review = pending.get(reviewId)!;
+        const analysis = await analyzeReview(businessProfile, review, review.locationId);
+        patchReview(reviewId, { analysis });
+      },
+      { concurrency: ANALYSIS_CONCURRENCY, onUpdate: setAnalysisProgress }
+    );
+  };
+
+  const analyzedTopics = REVIEW_TOPICS.filter(topic => reviews.some(r => r.analysis?.topics.some(t => t.topic === topic)));
+
+  // Stop drafting if the inbox is left mid-job
+  useEffect(() => () => {
+    bulkJobRef.current?.cancel();
+    analysisJobRef.current?.cancel();
+  }, []);
+
+  const findingsFor = (review: GoogleReview, content = review.replyContent || '') =>
+    checkReply(content, { businessProfile, review, locationId: review.locationId, language: replyLanguageFor(review) });
+
+  const isBlocked = (review: GoogleReview) => hasBlockingFindings(findingsFor(review));
+
+  // Shows a reply changed outside the app right away instead of at the next full sync
+  const reloadReview = async (id: string) => {
+    try {
+      const fresh = await fetchGoogleReview(businessProfile.accessToken, id);
+      setReviews(prev => {
+        const merged = mergeReviews(prev, [fresh]);
+        saveReviews(merged.filter(r => r.id === id)).catch(e => console.error("Failed to save review:", e));
+        return merged;
+      });
+    } catch (e) {
+      console.error(e);
     }
   };
 
-  const postReply = async (reviewId: string, content: string) => {
-    setProcessingId(reviewId);
+  /**
+   * Posts a new reply, or replaces an already posted one. Resolves to false on failure.
+   * Callers check that the active member may post.
+   */
+  const postReply = async (review: GoogleReview, content = review.replyContent || '') => {
+    const findings = findingsFor(review, content);
+    if (hasBlockingFindings(findings)) {
+      setReviewError(review.id, describeBlockingFindings(findings));
+      return false;
+    }
+    startProcessing(review.id);
+    setReviewError(review.id);
     try {
-      await postReplyToGoogle(businessProfile.accessToken, reviewId, content);
-      setReviews(prev => prev.map(r => 
-        r.id === reviewId ? { ...r, status: 'replied' } : r
-      ));
+      const reply = await postReplyToGoogle(businessProfile.accessToken, review.id, content, review.replyUpdateTime);
+      patchReview(review.id, { status: 'replied', replyContent: reply.comment, replyUpdateTime: reply.updateTime });
+      return true;
+    } catch (e) {
+      console.error(e);
+      setReviewError(review.id, getErrorMessage(e));
+      if (e instanceof ConflictError) reloadReview(review.id);
+      return false;
+    } finally {
+      stopProcessing(review.id);
+    }
+  };
+
+  // Read through a ref so the queue always posts against the latest review state
+  sendQueuedRef.current = async (item: PostQueueItem) => {
+    const review = reviews.find(r => r.id === item.reviewId);
+    if (!review) throw new Error("This review is no longer in the inbox.");
+    if (!isReadyToPost(review)) throw new Error("This reply is no longer approved.");
+    const findings = findingsFor(review, item.content);
+    if (hasBlockingFindings(findings)) throw new Error(describeBlockingFindings(findings));
+    try {
+      const reply = await postReplyToGoogle(businessProfile.accessToken, review.id, item.content, review.replyUpdateTime);
+      updateReview({ ...review, status: 'replied', replyContent: reply.comment, replyUpdateTime: reply.updateTime });
+    } catch (e) {
+      if (e instanceof ConflictError) reloadReview(review.id);
+      throw e;
+    }
+  };
+
+  useEffect(() => {
+    const queue = createPostQueue({
+      undoWindowMs: undoWindowSeconds * 1000,
+      post: (item) => sendQueuedRef.current(item),
+      onUpdate: setQueueItems,
+      initialItems: queueItems
+    });
+    postQueueRef.current = queue;
+    return () => queue.dispose();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('postQueue', JSON.stringify(queueItems.filter(item => item.status !== 'posted')));
+  }, [queueItems]);
+
+  const queueReplies = (selected: GoogleReview[]) => {
+    if (!canPost) return;
+    const toPost = selected.filter(r => isReadyToPost(r) && !isBlocked(r));
+    postQueueRef.current?.enqueue(toPost.map(r => ({ reviewId: r.id, content: r.replyContent || '' })));
+    setSelectedIds(prev => prev.filter(id => !toPost.some(r => r.id === id)));
+  };
+
+  /**
+   * Lets the auto-reply rules act on the pending reviews that are ready for them. Runs one
+   * review at a time; a failure is shown on that review and the run moves on.
+   */
+  const runAutoReplies = async (current: GoogleReview[]) => {
+    const rules = businessProfile.autoReplyRules || [];
+    if (autoReplyRunningRef.current || !rules.some(r => r.enabled)) return;
+    autoReplyRunningRef.current = true;
+
+    const done: Record<string, number> = {};
+    try {
+      for (const item of planAutoReplies(current, rules, replyLanguageFor, canAutoPost).filter(i => i.status === 'ready')) {
+        const { review, rule, action } = item;
+        const record: AutoReplyRecord = { ruleId: rule.id, ruleName: rule.name, action, at: new Date().toISOString() };
+        try {
+          const template = rule.templateId ? templates.find(t => t.id === rule.templateId) : undefined;
+          const reply = await draftReview(review, template || templateFor(review));
+          if (action === 'post') {
+            if (!await postReply(review, reply)) {
+              // Keep the draft so it can be posted by hand
+              patchReview(review.id, { autoReply: { ...record, action: 'draft' } });
+              continue;
+            }
+            patchReview(review.id, { autoReply: record });
+          } else if (action === 'queue' && workflow) {
+            patchReview(review.id, r => ({ ...submitForReview(r), autoReply: record }));
+          } else {
+            patchReview(review.id, { autoReply: record });
+            if (action === 'queue') setSelectedIds(prev => [...prev, review.id]);
+          }
+          done[action] = (done[action] || 0) + 1;
+        } catch (e) {
+          console.error(e);
+          setReviewError(review.id, getErrorMessage(e));
+        }
+      }
+    } finally {
+      autoReplyRunningRef.current = false;
+    }
+
+    const summary = [
+      done.draft && `${done.draft} drafted`,
+      done.queue && `${done.queue} queued for approval`,
+      done.post && `${done.post} posted`
+    ].filter(Boolean).join(', ');
+    if (summary) setAutoReplyNotice(`Auto-reply rules: ${summary}.`);
+  };
+
+  const handleSavePreset = (name: string) => {
+    const presets = [...filterPresets, { id: Date.now().toString(36), name, query }];
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    const presets = filterPresets.filter(p => p.id !== id);
+    setFilterPresets(presets);
+    saveFilterPresets(presets);
+  };
+
+  const handleUndoWindowChange = (seconds: number) => {
+    setUndoWindowSeconds(seconds);
+    localStorage.setItem('post_undo_window', String(seconds));
+    postQueueRef.current?.setUndoWindow(seconds * 1000);
+  };
+
+  const queueItemFor = (id: string) =>
+    queueItems.find(item => item.reviewId === id && (item.status === 'waiting' || item.status === 'posting'));
+
+  const selectableReviews = canPost
+    ? visibleReviews.filter(r => (workflow ? r.status === 'approved' : r.status === 'drafted') && r.replyContent && !queueItemFor(r.id) && !isBlocked(r))
+    : [];
+  const selectedReviews = selectableReviews.filter(r => selectedIds.includes(r.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const deleteReply = async (review: GoogleReview) => {
+    startProcessing(review.id);
+    setReviewError(review.id);
+    try {
+      await deleteReplyFromGoogle(businessProfile.accessToken, review.id);
+      updateReview({ ...review, status: 'pending', replyContent: undefined, replyUpdateTime: undefined });
+      return true;
     } catch (e) {
       console.error(e);
-      alert("Failed to post to Google. Check if your API quota is active or if CORS is blocking requests.");
+      setReviewError(review.id, getErrorMessage(e));
+      return false;
     } finally {
-      setProcessingId(null);
+      stopProcessing(review.id);
+    }
+  };
+
+  /**
+   * Applies an approval decision; the workflow functions throw when the member isn't allowed to make it
+   */
+  const decide = (review: GoogleReview, decision: (review: GoogleReview) => GoogleReview) => {
+    setReviewError(review.id);
+    try {
+      updateReview(decision(review));
+    } catch (e) {
+      setReviewError(review.id, getErrorMessage(e));
+    }
+  };
+
+  // Outside demo mode the server checks the change and keeps the team for everyone
+  const handleTeamSave = async (team: TeamMember[]) => {
+    setError(null);
+    try {
+      const saved = businessProfile.isDemo ? team : await saveSharedTeam(businessProfile, team);
+      onUpdateProfile({ ...businessProfile, team: saved });
+      setOpenPanel(null);
+    } catch (e) {
+      setError(getErrorMessage(e));
     }
   };
 
-  const handleReplyChange = (id: string, text: string) => {
-    setReviews(prev => prev.map(r => 
-      r.id === id ? { ...r, replyContent: text } : r
-    ));
+  const handleSwitchLocation = (account: GoogleAccount, selected: GoogleLocation[]) => {
+    setOpenPanel(null);
+    setReviews([]);
+    onUpdateProfile({
+      ...businessProfile,
+      ...buildBusinessProfile(businessProfile.accessToken, account, selected)
+    });
+  };
+
+  // Approvals were for the text as it was, so they go with the first keystroke rather than on blur
+  const handleReplyChange = (review: GoogleReview, text: string) => {
+    const reset = review.status === 'pending' || review.status === 'drafted' ? {} : { status: 'drafted' as ReviewStatus, approvals: undefined };
+    updateReview({ ...review, ...reset, replyContent: text });
   };
 
+  // Manual edits are recorded in the draft history once the user leaves the field
+  const handleReplyBlur = (review: GoogleReview) => {
+    if (review.replyContent) {
+      updateReview(withDraftRevision(review, review.replyContent, 'manual'));
+    }
+  };
+
+  const renderReviewCard = (review: GoogleReview) => (
+    <div className={`bg-white rounded-xl shadow-sm border transition-all duration-300 ${review.status === 'replied' ? 'border-green-100 bg-green-50/10' : 'border-slate-200'}`}>
+      <div className="p-6">
+        {/* Review Header */}
+        <div className="flex justify-between items-start mb-4">
+          <div className="flex items-center space-x-3">
+            {selectableReviews.includes(review) && (
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(review.id)}
+                onChange={() => toggleSelected(review.id)}
+                className="w-4 h-4 accent-indigo-600 cursor-pointer"
+              />
+            )}
+            {review.reviewerAvatar ? (
+              <img src={review.reviewerAvatar} alt={review.reviewerName} className="w-10 h-10 rounded-full" />
+            ) : (
+              <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-slate-500 font-bold">
+                {review.reviewerName.charAt(0)}
+              </div>
+            )}
+            <div>
+              <h4 className="font-semibold text-slate-800">{review.reviewerName}</h4>
+              <div className="flex items-center space-x-2 text-sm text-slate-500">
+                <div className="flex text-amber-400">
+                  {[...Array(5)].map((_, i) => (
+                    <StarIcon key={i} className={`w-4 h-4 ${i < review.rating ? 'text-amber-400' : 'text-slate-200'}`} />
+                  ))}
+                </div>
+                <span>•</span>
+                <span>{review.date}</span>
+                {isMultiLocation && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center text-indigo-600 font-medium">
+                      <MapPinIcon className="w-3 h-3 mr-0.5" />
+                      {locationTitle(review.locationId)}
+                    </span>
+                  </>
+                )}
+                {review.autoReply && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center text-violet-600 font-medium" title={`Rule "${review.autoReply.ruleName}" on ${new Date(review.autoReply.at).toLocaleString()}`}>
+                      <BoltIcon className="w-3 h-3 mr-0.5" />
+                      {AUTO_REPLY_RECORD_LABELS[review.autoReply.action]}
+                    </span>
+                  </>
+                )}
+                {review.status !== 'replied' && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center">
+                      <LanguageIcon className="w-3 h-3 mr-0.5" />
+                      <select
+                        value={replyLanguageFor(review)}
+                        onChange={(e) => handleReplyLanguageChange(review, e.target.value as Language)}
+                        title="Reply language"
+                        className="bg-transparent outline-none cursor-pointer"
+                      >
+                        {Object.values(Language).map(l => (
+                          <option key={l} value={l}>{l}{l === detectedLanguageFor(review) ? ' (detected)' : ''}</option>
+                        ))}
+                      </select>
+                    </span>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider ${STATUS_STYLES[review.status]}`}>
+            {STATUS_LABELS[review.status]}
+          </div>
+        </div>
+
+        {/* Review Content */}
+        <div className="mb-6 pl-14">
+          <p className="text-slate-700">{review.content}</p>
+          {review.googleTranslation && (
+            <p className="text-slate-400 text-sm italic mt-1">Google translation: {review.googleTranslation}</p>
+          )}
+          {review.analysis && (
+            <div className="mt-2">
+              <ReviewAnalysisChips
+                analysis={review.analysis}
+                activeTopic={query.topic}
+                onTopicClick={(topic) => setQuery({ ...query, topic: query.topic === topic ? undefined : topic })}
+              />
+            </div>
+          )}
+          {hasReviewText(review.content) && detectedLanguageFor(review) !== workingLanguage && (
+            <div className="mt-2">
+              {renderTranslationToggle(review, 'review', `Translate to ${workingLanguage}`)}
+              {renderTranslation(review, 'review')}
+            </div>
+          )}
+        </div>
+
+        {/* Action Area */}
+        <div className="pl-14">
+          {reviewErrors[review.id] && (
+            <div className="mb-3 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100 flex items-start">
+              <ExclamationTriangleIcon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              <span>{reviewErrors[review.id]}</span>
+            </div>
+          )}
+          {review.status === 'replied' ? (
+            <PostedReply
+              review={review}
+              busy={isProcessing(review.id)}
+              readOnly={!canPost}
+              onSave={(text) => postReply(review, text)}
+              onDelete={() => deleteReply(review)}
+            />
+          ) : (
+            <div className="bg-slate-50 rounded-lg p-4 border border-slate-100">
+              {review.status === 'pending' ? (
+                <div className="flex justify-between items-center">
+                   <span className="text-slate-500 text-sm italic">No reply yet.</span>
+                   <div className="flex items-center space-x-4">
+                     {templates.length > 0 && (
+                       <select
+                         value={templateChoices[review.id] || ''}
+                         onChange={(e) => setTemplateChoices(prev => ({ ...prev, [review.id]: e.target.value }))}
+                         className="bg-white border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-600 outline-none"
+                       >
+                         <option value="">Template: {matchTemplate(businessProfile.templateLibrary, review, replyLanguageFor(review))?.name || 'none matched'}</option>
+                         <option value="none">No template</option>
+                         {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                       </select>
+                     )}
+                     <button
+                       onClick={() => generateReply(review)}
+                       disabled={isProcessing(review.id)}
+                       className="flex items-center space-x-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm disabled:opacity-50"
+                     >
+                       {isProcessing(review.id) ? (
+                         <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                       ) : (
+                         <SparklesIcon className="w-4 h-4" />
+                       )}
+                       <span>{templateFor(review)?.mode === 'reply' ? 'Use Template' : 'Generate AI Reply'}</span>
+                     </button>
+                     <button
+                       onClick={() => generateVariants(review)}
+                       disabled={isProcessing(review.id)}
+                       className="flex items-center space-x-1 text-slate-500 hover:text-indigo-600 font-medium text-sm disabled:opacity-50"
+                       title="Compare several drafts side by side"
+                     >
+                       <Squares2X2Icon className="w-4 h-4" />
+                       <span>Variants</span>
+                     </button>
+                   </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center mb-1">
+                     <span className="text-xs font-semibold text-slate-500 uppercase">Draft Reply</span>
+                     <div className="flex items-center space-x-4">
+                       {replyLanguageFor(review) !== workingLanguage && review.replyContent &&
+                         renderTranslationToggle(review, 'draft', `Check in ${workingLanguage}`)}
+                       <button
+                         onClick={() => generateReply(review)} // Re-generate
+                         disabled={isProcessing(review.id) || !!queueItemFor(review.id)}
+                         className="text-xs text-indigo-600 hover:underline flex items-center disabled:opacity-50"
+                       >
+                         <ArrowPathIcon className="w-3 h-3 mr-1" /> Regenerate
+                       </button>
+                       <button
+                         onClick={() => generateVariants(review)}
+                         disabled={isProcessing(review.id) || !!queueItemFor(review.id)}
+                         className="text-xs text-indigo-600 hover:underline flex items-center disabled:opacity-50"
+                       >
+                         <Squares2X2Icon className="w-3 h-3 mr-1" /> Variants
+                       </button>
+                     </div>
+                  </div>
+                  {/* A refine replaces the whole draft, so typing waits until it is back */}
+                  <textarea
+                    value={review.replyContent}
+                    readOnly={!!queueItemFor(review.id) || isProcessing(review.id)}
+                    onChange={(e) => handleReplyChange(review, e.target.value)}
+                    onBlur={() => handleReplyBlur(review)}
+                    className="w-full p-3 text-sm rounded-md border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none"
+                    rows={3}
+                  />
+                  {renderTranslation(review, 'draft')}
+                  {!queueItemFor(review.id) && (
+                    <DraftRefiner
+                      busy={isProcessing(review.id)}
+                      canUndo={canUndoDraft(review)}
+                      canRedo={canRedoDraft(review)}
+                      onRefine={(instruction) => refineDraft(review, instruction)}
+                      onUndo={() => updateReview(stepDraftRevision(review, -1))}
+                      onRedo={() => updateReview(stepDraftRevision(review, 1))}
+                    />
+                  )}
+                  <ReplyGuardrails findings={findingsFor(review)} />
+                  {workflow && member && !queueItemFor(review.id) && (
+                    <ApprovalPanel
+                      review={review}
+                      member={member}
+                      busy={isProcessing(review.id)}
+                      blocked={isBlocked(review)}
+                      onSubmit={() => decide(review, submitForReview)}
+                      onApprove={(comment) => decide(review, r => approveDraft(r, member, comment))}
+                      onRequestChanges={(comment) => decide(review, r => requestChanges(r, member, comment))}
+                      onReject={(comment) => decide(review, r => rejectDraft(r, member, comment))}
+                      onComment={(text) => decide(review, r => addComment(r, member, text))}
+                    />
+                  )}
+                  <div className="flex justify-end">
+                    {queueItemFor(review.id) ? (
+                      <div className="flex items-center space-x-3 text-sm">
+                        <span className="text-amber-600 font-medium">
+                          {queueItemFor(review.id)!.status === 'posting' ? 'Posting...' : 'Queued for posting'}
+                        </span>
+                        {queueItemFor(review.id)!.status === 'waiting' && (
+                          <button
+                            onClick={() => postQueueRef.current?.undo(review.id)}
+                            className="text-indigo-600 hover:underline font-medium"
+                          >
+                            Undo
+                          </button>
+                        )}
+                      </div>
+                    ) : canPost && isReadyToPost(review) ? (
+                      <button
+                        onClick={() => queueReplies([review])}
+                        disabled={isProcessing(review.id) || isBlocked(review)}
+                        className="flex items-center space-x-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
+                      >
+                        <PaperAirplaneIcon className="w-4 h-4" />
+                        <span>Post Reply</span>
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+              )}
+              {!!review.draftVariants?.length && !queueItemFor(review.id) && (
+                <DraftVariantsPanel
+                  variants={review.draftVariants}
+                  regenerating={review.draftVariants.map((_, i) => i).filter(i => regeneratingVariants.includes(`${review.id}:${i}`))}
+                  onRegenerate={(index, style) => regenerateVariant(review, index, style)}
+                  onChoose={(content, styles) => chooseVariant(review, content, styles)}
+                  onClose={() => patchReview(review.id, { draftVariants: undefined })}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="max-w-7xl mx-auto">
       {/* Dashboard Header */}
@@ -107,8 +1170,94 @@ export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
           <div>
             <h2 className="text-2xl font-bold text-slate-800">{businessProfile.name}</h2>
-            <p className="text-slate-500 text-xs mt-1">ID: {businessProfile.locationId}</p>
+            <p className="text-slate-500 text-xs mt-1">
+              {isMultiLocation ? `${locations.length} locations connected` : `ID: ${businessProfile.locationId}`}
+            </p>
+            <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1">
+              <button
+                onClick={() => togglePanel('locations')}
+                className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+              >
+                <ArrowsRightLeftIcon className="w-3 h-3 mr-1" /> {isMultiLocation ? 'Change Locations' : 'Switch Location'}
+              </button>
+              <button
+                onClick={() => togglePanel('ai')}
+                className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+              >
+                <Cog6ToothIcon className="w-3 h-3 mr-1" /> AI Settings
+              </button>
+              <button
+                onClick={() => togglePanel('knowledge')}
+                className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+              >
+                <BookOpenIcon className="w-3 h-3 mr-1" /> Knowledge Base
+              </button>
+              <button
+                onClick={() => togglePanel('voice')}
+                className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+              >
+                <ChatBubbleLeftRightIcon className="w-3 h-3 mr-1" /> Brand Voice
+              </button>
+              <button
+                onClick={() => togglePanel('templates')}
+                className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+              >
+                <DocumentDuplicateIcon className="w-3 h-3 mr-1" /> Templates
+              </button>
+              {isAdmin && (
+                <>
+                  <button
+                    onClick={() => togglePanel('autoReply')}
+                    className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+                  >
+                    <BoltIcon className="w-3 h-3 mr-1" /> Auto-Reply
+                  </button>
+                  <button
+                    onClick={() => togglePanel('team')}
+                    className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+                  >
+                    <UserGroupIcon className="w-3 h-3 mr-1" /> Team
+                  </button>
+                  <button
+                    onClick={() => togglePanel('guardrails')}
+                    className="text-xs text-indigo-600 hover:underline flex items-center font-medium"
+                  >
+                    <ShieldCheckIcon className="w-3 h-3 mr-1" /> Guardrails
+                  </button>
+                </>
+              )}
+              {workflow && businessProfile.isDemo && (
+                <label className="text-xs text-slate-500 flex items-center">
+                  Working as
+                  <select
+                    value={member!.id}
+                    onChange={(e) => handleMemberChange(e.target.value)}
+                    className="ml-1 bg-transparent font-medium text-slate-700 outline-none cursor-pointer"
+                  >
+                    {businessProfile.team!.map(m => <option key={m.id} value={m.id}>{m.name} ({m.role})</option>)}
+                  </select>
+                </label>
+              )}
+              {workflow && !businessProfile.isDemo && member && (
+                <span className="text-xs text-slate-500">
+                  Working as <span className="font-medium text-slate-700">{member.name} ({member.role})</span>
+                </span>
+              )}
+              {workflow && !businessProfile.isDemo && !member && (signedInEmail || workflowError) && (
+                <span className="text-xs text-amber-600">
+                  {workflowError || `${signedInEmail || 'Your Google account'} is not on the team, so you can only read.`}
+                </span>
+              )}
+            </div>
           </div>
+
+          {averageRating !== undefined && (
+            <div className="flex items-center space-x-2">
+              <StarIcon className="w-6 h-6 text-amber-400" />
+              <span className="text-2xl font-bold text-slate-800">{averageRating.toFixed(1)}</span>
+              <span className="text-sm text-slate-500">{totalReviewCount} reviews</span>
+            </div>
+          )}
           
           <div className="flex items-center space-x-3 bg-slate-50 p-2 rounded-lg border border-slate-100">
             <select 
@@ -122,10 +1271,33 @@ export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout
             <select 
               value={language}
               onChange={(e) => setLanguage(e.target.value as Language)}
+              title="Reply language for reviews whose language can't be detected"
               className="bg-transparent text-sm font-medium text-slate-700 outline-none cursor-pointer"
             >
-              {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+              {Object.values(Language).map(l => <option key={l} value={l}>Default: {l}</option>)}
             </select>
+            <div className="h-4 w-px bg-slate-300"></div>
+            <select
+              value={workingLanguage}
+              onChange={(e) => onUpdateProfile({ ...businessProfile, workingLanguage: e.target.value as Language })}
+              title="Language reviews and drafts are translated into for you to read"
+              className="bg-transparent text-sm font-medium text-slate-700 outline-none cursor-pointer"
+            >
+              {Object.values(Language).map(l => <option key={l} value={l}>Read in: {l}</option>)}
+            </select>
+            {isMultiLocation && (
+              <>
+                <div className="h-4 w-px bg-slate-300"></div>
+                <select
+                  value={locationFilter}
+                  onChange={(e) => setLocationFilter(e.target.value)}
+                  className="bg-transparent text-sm font-medium text-slate-700 outline-none cursor-pointer max-w-[12rem]"
+                >
+                  <option value="">All Locations</option>
+                  {locations.map(l => <option key={l.locationId} value={l.locationId}>{l.title}</option>)}
+                </select>
+              </>
+            )}
           </div>
 
           <div className="flex space-x-3">
@@ -135,17 +1307,214 @@ export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout
             >
               Disconnect
             </button>
+            <button
+              onClick={() => loadReviews(true)}
+              disabled={loading || syncing}
+              className="flex items-center space-x-2 px-4 py-2 text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+              <span>Sync</span>
+            </button>
+            <button
+              onClick={analyzeAll}
+              disabled={isAnalysisActive || loading || unanalyzedReviews.length === 0}
+              title="Detect sentiment, topics, urgency and staff mentions"
+              className="flex items-center space-x-2 px-4 py-2 text-slate-700 border border-slate-200 hover:bg-slate-50 rounded-lg text-sm font-medium disabled:opacity-50"
+            >
+              <ChartBarIcon className="w-4 h-4" />
+              <span>Analyze{unanalyzedReviews.length > 0 ? ` ${unanalyzedReviews.length}` : ''}</span>
+            </button>
             <button 
               onClick={autoGenerateAll}
-              className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-lg font-semibold transition shadow-md active:scale-95"
+              disabled={isBulkActive || loading}
+              className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-lg font-semibold transition shadow-md active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
             >
               <SparklesIcon className="w-5 h-5" />
               <span>Auto-Draft All</span>
             </button>
           </div>
         </div>
+
+        {openPanel === 'locations' && (
+          <div className="mt-6 pt-6 border-t border-slate-100 max-w-lg">
+            <LocationPicker
+              accessToken={businessProfile.accessToken}
+              currentLocationIds={locations.map(l => l.locationId)}
+              onSelect={handleSwitchLocation}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'ai' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <AiSettings
+              value={businessProfile.llm}
+              onSave={(llm) => {
+                onUpdateProfile({ ...businessProfile, llm });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'knowledge' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <KnowledgeBaseEditor
+              locations={locations}
+              value={businessProfile.knowledgeBase}
+              onSave={(knowledgeBase) => {
+                onUpdateProfile({ ...businessProfile, knowledgeBase });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'voice' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <BrandVoicePanel
+              businessProfile={businessProfile}
+              reviews={reviews}
+              onSave={(brandVoice) => {
+                onUpdateProfile({ ...businessProfile, brandVoice });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'templates' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <TemplateLibraryEditor
+              value={businessProfile.templateLibrary}
+              onSave={(templateLibrary) => {
+                onUpdateProfile({ ...businessProfile, templateLibrary });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'team' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <TeamEditor
+              value={businessProfile.team}
+              currentEmail={signedInEmail}
+              onSave={handleTeamSave}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'guardrails' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <GuardrailSettings
+              value={businessProfile.bannedPhrases}
+              onSave={(bannedPhrases) => {
+                onUpdateProfile({ ...businessProfile, bannedPhrases });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'autoReply' && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <AutoReplyRulesEditor
+              value={businessProfile.autoReplyRules}
+              templates={templates}
+              reviews={reviews}
+              languageFor={replyLanguageFor}
+              canAutoPost={canAutoPost}
+              onSave={(autoReplyRules) => {
+                onUpdateProfile({ ...businessProfile, autoReplyRules });
+                setOpenPanel(null);
+              }}
+              onCancel={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
       </div>
 
+      {autoReplyNotice && (
+        <div className="flex items-center justify-between bg-violet-50 border border-violet-100 rounded-xl px-4 py-3 mb-6 text-sm text-violet-800">
+          <span className="flex items-center"><BoltIcon className="w-4 h-4 mr-2" /> {autoReplyNotice}</span>
+          <button onClick={() => setAutoReplyNotice(null)} className="text-violet-400 hover:text-violet-700">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {businessProfile.isDemo && <DemoControls onSimulated={() => loadReviews(true)} />}
+
+      {/* Bulk Drafting Progress */}
+      {bulkProgress && (
+        <BulkDraftPanel
+          progress={bulkProgress}
+          reviews={reviews}
+          onPause={() => bulkJobRef.current?.pause()}
+          onResume={() => bulkJobRef.current?.resume()}
+          onCancel={() => bulkJobRef.current?.cancel()}
+          onDismiss={() => setBulkProgress(null)}
+        />
+      )}
+
+      {analysisProgress && (
+        <BulkDraftPanel
+          task="analyze"
+          progress={analysisProgress}
+          reviews={reviews}
+          onPause={() => analysisJobRef.current?.pause()}
+          onResume={() => analysisJobRef.current?.resume()}
+          onCancel={() => analysisJobRef.current?.cancel()}
+          onDismiss={() => setAnalysisProgress(null)}
+        />
+      )}
+
+      {/* Outgoing Queue */}
+      {queueItems.length > 0 && (
+        <OutgoingQueuePanel
+          items={queueItems}
+          reviews={reviews}
+          undoWindowSeconds={undoWindowSeconds}
+          onUndoWindowChange={handleUndoWindowChange}
+          onUndo={(id) => postQueueRef.current?.undo(id)}
+          onRetry={(id) => postQueueRef.current?.retry(id, reviews.find(r => r.id === id)?.replyContent)}
+          onRemove={(id) => postQueueRef.current?.remove(id)}
+          onClearPosted={() => postQueueRef.current?.clearPosted()}
+        />
+      )}
+
+      {/* View Tabs */}
+      <div className="flex space-x-1 mb-6 bg-slate-100 rounded-xl p-1 w-fit">
+        {(['inbox', 'analytics'] as DashboardView[]).map(v => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`flex items-center px-4 py-1.5 rounded-lg text-sm font-medium transition ${view === v ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+          >
+            {v === 'inbox' ? <InboxIcon className="w-4 h-4 mr-1" /> : <PresentationChartLineIcon className="w-4 h-4 mr-1" />}
+            {v === 'inbox' ? 'Inbox' : 'Analytics'}
+          </button>
+        ))}
+      </div>
+
+      {/* Per-location Counts */}
+      {view === 'inbox' && isMultiLocation && !loading && (
+        <LocationStats
+          locations={locations}
+          reviews={reviews}
+          selectedLocationId={locationFilter}
+          onSelect={setLocationFilter}
+        />
+      )}
+
       {/* Error State */}
       {error && (
         <div className="bg-red-50 border border-red-100 rounded-xl p-4 mb-6 flex items-start space-x-3">
@@ -154,7 +1523,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout
             <h3 className="text-red-800 font-semibold">Connection Error</h3>
             <p className="text-red-700 text-sm mt-1">{error}</p>
             <button 
-              onClick={loadReviews}
+              onClick={() => loadReviews()}
               className="mt-2 text-red-600 text-sm font-bold hover:underline flex items-center"
             >
               <ArrowPathIcon className="w-4 h-4 mr-1" /> Retry
@@ -163,124 +1532,73 @@ export const Dashboard: React.FC<DashboardProps> = ({ businessProfile, onLogout
         </div>
       )}
 
-      {/* Reviews List */}
-      <div className="space-y-6">
-        {loading ? (
-           <div className="text-center py-20 text-slate-400">
-             <ArrowPathIcon className="w-10 h-10 animate-spin mx-auto mb-4" />
-             <p>Syncing reviews from Google Business Profile...</p>
-           </div>
-        ) : reviews.length === 0 && !error ? (
-          <div className="text-center py-20 bg-white rounded-xl border border-slate-200 border-dashed">
-            <p className="text-slate-500">No reviews found for this location.</p>
-          </div>
-        ) : (
-          reviews.map((review) => (
-            <div key={review.id} className={`bg-white rounded-xl shadow-sm border transition-all duration-300 ${review.status === 'replied' ? 'border-green-100 bg-green-50/10' : 'border-slate-200'}`}>
-              <div className="p-6">
-                {/* Review Header */}
-                <div className="flex justify-between items-start mb-4">
-                  <div className="flex items-center space-x-3">
-                    {review.reviewerAvatar ? (
-                      <img src={review.reviewerAvatar} alt={review.reviewerName} className="w-10 h-10 rounded-full" />
-                    ) : (
-                      <div className="w-10 h-10 rounded-full bg-slate-200 flex items-center justify-center text-slate-500 font-bold">
-                        {review.reviewerName.charAt(0)}
-                      </div>
-                    )}
-                    <div>
-                      <h4 className="font-semibold text-slate-800">{review.reviewerName}</h4>
-                      <div className="flex items-center space-x-2 text-sm text-slate-500">
-                        <div className="flex text-amber-400">
-                          {[...Array(5)].map((_, i) => (
-                            <StarIcon key={i} className={`w-4 h-4 ${i < review.rating ? 'text-amber-400' : 'text-slate-200'}`} />
-                          ))}
-                        </div>
-                        <span>•</span>
-                        <span>{review.date}</span>
-                      </div>
-                    </div>
-                  </div>
-                  <div className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider
-                    ${review.status === 'pending' ? 'bg-red-100 text-red-600' : 
-                      review.status === 'drafted' ? 'bg-amber-100 text-amber-600' : 
-                      'bg-green-100 text-green-600'}`}>
-                    {review.status}
-                  </div>
-                </div>
-
-                {/* Review Content */}
-                <p className="text-slate-700 mb-6 pl-14">{review.content}</p>
+      {view === 'analytics' ? (
+        <Analytics reviews={reviews} locations={locations} />
+      ) : (
+        <>
+        {/* Search, Filters & Sorting */}
+        {reviews.length > 0 && !loading && (
+          <ReviewFilterBar
+            query={query}
+            onChange={setQuery}
+            topics={analyzedTopics}
+            presets={filterPresets}
+            onSavePreset={handleSavePreset}
+            onDeletePreset={handleDeletePreset}
+            resultCount={visibleReviews.length}
+            totalCount={reviews.length}
+          />
+        )}
 
-                {/* Action Area */}
-                <div className="pl-14">
-                  {review.status === 'replied' ? (
-                    <div className="bg-green-50 rounded-lg p-4 border border-green-100">
-                      <div className="flex items-center text-green-700 font-semibold text-sm mb-2">
-                        <CheckCircleIcon className="w-4 h-4 mr-2" />
-                        Posted Reply
-                      </div>
-                      <p className="text-slate-600 text-sm">{review.replyContent}</p>
-                    </div>
-                  ) : (
-                    <div className="bg-slate-50 rounded-lg p-4 border border-slate-100">
-                      {review.status === 'pending' ? (
-                        <div className="flex justify-between items-center">
-                           <span className="text-slate-500 text-sm italic">No reply yet.</span>
-                           <button
-                            onClick={() => generateReply(review)}
-                            disabled={processingId === review.id}
-                            className="flex items-center space-x-2 text-indigo-600 hover:text-indigo-800 font-medium text-sm disabled:opacity-50"
-                          >
-                            {processingId === review.id ? (
-                              <ArrowPathIcon className="w-4 h-4 animate-spin" />
-                            ) : (
-                              <SparklesIcon className="w-4 h-4" />
-                            )}
-                            <span>Generate AI Reply</span>
-                          </button>
-                        </div>
-                      ) : (
-                        <div className="space-y-3">
-                          <div className="flex justify-between items-center mb-1">
-                             <span className="text-xs font-semibold text-slate-500 uppercase">Draft Reply</span>
-                             <button
-                                onClick={() => generateReply(review)} // Re-generate
-                                className="text-xs text-indigo-600 hover:underline flex items-center"
-                              >
-                                <ArrowPathIcon className="w-3 h-3 mr-1" /> Regenerate
-                              </button>
-                          </div>
-                          <textarea
-                            value={review.replyContent}
-                            onChange={(e) => handleReplyChange(review.id, e.target.value)}
-                            className="w-full p-3 text-sm rounded-md border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none"
-                            rows={3}
-                          />
-                          <div className="flex justify-end">
-                            <button
-                              onClick={() => postReply(review.id, review.replyContent || '')}
-                              disabled={processingId === review.id}
-                              className="flex items-center space-x-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
-                            >
-                               {processingId === review.id ? (
-                                  <ArrowPathIcon className="w-4 h-4 animate-spin" />
-                                ) : (
-                                  <PaperAirplaneIcon className="w-4 h-4" />
-                                )}
-                              <span>Post Reply</span>
-                            </button>
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-              </div>
+        {/* Bulk Selection */}
+        {selectableReviews.length > 0 && !loading && (
+          <div className="flex items-center justify-between bg-white rounded-xl border border-slate-200 px-4 py-3 mb-6 text-sm">
+            <div className="flex items-center space-x-4">
+              <span className="font-medium text-slate-700">{selectedReviews.length} of {selectableReviews.length} drafts selected</span>
+              <button
+                onClick={() => setSelectedIds(selectedReviews.length === selectableReviews.length ? [] : selectableReviews.map(r => r.id))}
+                className="text-indigo-600 hover:underline text-xs font-medium"
+              >
+                {selectedReviews.length === selectableReviews.length ? 'Clear selection' : workflow ? 'Select all approved' : 'Select all drafts'}
+              </button>
             </div>
-          ))
+            <button
+              onClick={() => queueReplies(selectedReviews)}
+              disabled={selectedReviews.length === 0}
+              className="flex items-center space-x-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
+            >
+              <PaperAirplaneIcon className="w-4 h-4" />
+              <span>{workflow ? 'Post Approved' : 'Approve & Post'} {selectedReviews.length > 0 ? selectedReviews.length : ''}</span>
+            </button>
+          </div>
         )}
-      </div>
+
+        {/* Reviews List */}
+        <div className="space-y-6">
+          {loading ? (
+             <div className="text-center py-20 text-slate-400">
+               <ArrowPathIcon className="w-10 h-10 animate-spin mx-auto mb-4" />
+               <p>Syncing reviews from Google Business Profile...</p>
+               {syncedCount > 0 && (
+                 <p className="text-sm mt-2">
+                   {syncTotal ? `${syncedCount} / ${syncTotal} reviews` : `${syncedCount} reviews`}
+                 </p>
+               )}
+             </div>
+          ) : visibleReviews.length === 0 && !error ? (
+            <div className="text-center py-20 bg-white rounded-xl border border-slate-200 border-dashed">
+              <p className="text-slate-500">{isQueryFiltered(query) ? 'No reviews match these filters.' : 'No reviews found for this location.'}</p>
+            </div>
+          ) : (
+            <VirtualList
+              itemCount={visibleReviews.length}
+              itemKey={(index) => visibleReviews[index].id}
+              renderItem={(index) => renderReviewCard(visibleReviews[index])}
+            />
+          )}
+        </div>
+        </>
+      )}
     </div>
   );
 };
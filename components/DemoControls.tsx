@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { simulateDemoError } from '../services/googleBusinessService';
+import { BeakerIcon } from '@heroicons/react/24/solid';
+
+interface DemoControlsProps {
+  onSimulated: () => void;
+}
+
+// Retryable errors need more failures than the client's retry budget to surface
+const SCENARIOS = [
+  { label: 'Expired token (401, renewed silently)', status: 401, times: 1 },
+  { label: 'Permission denied (403)', status: 403, times: 1 },
+  { label: 'Rate limit once (429, retried)', status: 429, times: 1 },
+  { label: 'Rate limit persists (429)', status: 429, times: 5 },
+  { label: 'Server error persists (500)', status: 500, times: 5 }
+];
+
+export const DemoControls: React.FC<DemoControlsProps> = ({ onSimulated }) => {
+  const [scenario, setScenario] = useState(0);
+  const [armed, setArmed] = useState('');
+
+  const simulate = async () => {
+    const { label, status, times } = SCENARIOS[scenario];
+    await simulateDemoError(status, times);
+    setArmed(label);
+    onSimulated();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-violet-50 border border-violet-100 rounded-xl px-4 py-3 mb-6 text-sm">
+      <span className="flex items-center font-semibold text-violet-800">
+        <BeakerIcon className="w-4 h-4 mr-1" /> Demo Mode
+      </span>
+      <span className="text-violet-700 text-xs">Data comes from the local mock server. Simulate an API failure:</span>
+      <select
+        value={scenario}
+        onChange={(e) => setScenario(Number(e.target.value))}
+        className="bg-white border border-violet-200 rounded-lg px-2 py-1 text-xs text-slate-700 outline-none"
+      >
+        {SCENARIOS.map((s, i) => <option key={s.label} value={i}>{s.label}</option>)}
+      </select>
+      <button
+        onClick={simulate}
+        className="text-xs font-semibold text-violet-700 hover:text-violet-900 hover:underline"
+      >
+        Simulate & Sync
+      </button>
+      {armed && <span className="text-xs text-violet-500">Last: {armed}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { RefineAction } from '../types';
+import { REFINE_ACTIONS } from '../services/geminiService';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, ArrowPathIcon, SparklesIcon } from '@heroicons/react/24/solid';
+
+interface DraftRefinerProps {
+  busy: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRefine: (instruction: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/**
+ * One-click refine actions and a free-text instruction for an existing draft
+ */
+export const DraftRefiner: React.FC<DraftRefinerProps> = ({ busy, canUndo, canRedo, onRefine, onUndo, onRedo }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = () => {
+    if (busy || !instruction.trim()) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  const buttonClass = "flex items-center text-xs font-medium disabled:opacity-50";
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(REFINE_ACTIONS) as RefineAction[]).map(action => (
+          <button
+            key={action}
+            onClick={() => onRefine(REFINE_ACTIONS[action].instruction)}
+            disabled={busy}
+            className="px-2 py-1 rounded-full border border-slate-200 bg-white text-slate-600 hover:border-indigo-300 hover:text-indigo-700 disabled:opacity-50"
+          >
+            {REFINE_ACTIONS[action].label}
+          </button>
+        ))}
+        <div className="flex items-center space-x-3 ml-auto">
+          <button onClick={onUndo} disabled={busy || !canUndo} title="Undo" className={`${buttonClass} text-slate-500 hover:text-slate-800`}>
+            <ArrowUturnLeftIcon className="w-3 h-3 mr-1" /> Undo
+          </button>
+          <button onClick={onRedo} disabled={busy || !canRedo} title="Redo" className={`${buttonClass} text-slate-500 hover:text-slate-800`}>
+            <ArrowUturnRightIcon className="w-3 h-3 mr-1" /> Redo
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder="Tell the AI what to change, e.g. mention the new terrace..."
+          className="flex-1 px-2 py-1 border border-slate-200 rounded-md bg-white outline-none"
+        />
+        <button onClick={submit} disabled={busy || !instruction.trim()} className={`${buttonClass} text-indigo-600 hover:text-indigo-800`}>
+          {busy ? <ArrowPathIcon className="w-3 h-3 mr-1 animate-spin" /> : <SparklesIcon className="w-3 h-3 mr-1" />} Refine
+        </button>
+      </div>
+    </div>
+  );
+};
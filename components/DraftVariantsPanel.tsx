@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { DraftVariant, DraftVariantStyle } from '../types';
+import { VARIANT_STYLES, splitSentences } from '../services/draftVariants';
+import { ArrowPathIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface DraftVariantsPanelProps {
+  variants: DraftVariant[];
+  regenerating: number[]; // Indexes of variants being regenerated
+  onRegenerate: (index: number, style: DraftVariantStyle) => void;
+  onChoose: (content: string, styles: DraftVariantStyle[]) => void;
+  onClose: () => void;
+}
+
+interface PickedSentence {
+  variant: number;
+  sentence: number;
+  text: string;
+}
+
+/**
+ * Variants side by side. Clicking sentences builds a merged reply from several of them.
+ */
+export const DraftVariantsPanel: React.FC<DraftVariantsPanelProps> = ({ variants, regenerating, onRegenerate, onChoose, onClose }) => {
+  const [picked, setPicked] = useState<PickedSentence[]>([]);
+
+  const isPicked = (variant: number, sentence: number) =>
+    picked.some(p => p.variant === variant && p.sentence === sentence);
+
+  const togglePick = (variant: number, sentence: number, text: string) => {
+    setPicked(isPicked(variant, sentence)
+      ? picked.filter(p => !(p.variant === variant && p.sentence === sentence))
+      : [...picked, { variant, sentence, text }]);
+  };
+
+  // A regenerated variant has new sentences, so picks from it no longer apply
+  const regenerate = (index: number, style: DraftVariantStyle) => {
+    setPicked(picked.filter(p => p.variant !== index));
+    onRegenerate(index, style);
+  };
+
+  const merged = picked.map(p => p.text).join(' ');
+  const mergedStyles = [...new Set(picked.map(p => variants[p.variant].style))];
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-slate-500 uppercase">Variants · click sentences to merge them</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close variants">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {variants.map((variant, index) => {
+          const busy = regenerating.includes(index);
+          return (
+            <div key={index} className="bg-white border border-slate-200 rounded-lg p-3 flex flex-col text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <select
+                  value={variant.style}
+                  onChange={(e) => regenerate(index, e.target.value as DraftVariantStyle)}
+                  disabled={busy}
+                  className="bg-transparent text-xs font-semibold text-indigo-700 outline-none cursor-pointer"
+                >
+                  {(Object.keys(VARIANT_STYLES) as DraftVariantStyle[]).map(s => <option key={s} value={s}>{VARIANT_STYLES[s].label}</option>)}
+                </select>
+                <button
+                  onClick={() => regenerate(index, variant.style)}
+                  disabled={busy}
+                  className="text-slate-400 hover:text-indigo-600 disabled:opacity-50"
+                  title="Regenerate this variant"
+                >
+                  <ArrowPathIcon className={`w-3 h-3 ${busy ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              <p className={`flex-grow text-slate-700 leading-relaxed ${busy ? 'opacity-40' : ''}`}>
+                {splitSentences(variant.content).map((sentence, i) => (
+                  <span
+                    key={i}
+                    onClick={() => !busy && togglePick(index, i, sentence)}
+                    className={`cursor-pointer rounded px-0.5 ${isPicked(index, i) ? 'bg-indigo-100 text-indigo-900' : 'hover:bg-slate-100'}`}
+                  >
+                    {sentence}{' '}
+                  </span>
+                ))}
+              </p>
+              <button
+                onClick={() => onChoose(variant.content, [variant.style])}
+                disabled={busy}
+                className="mt-3 flex items-center justify-center text-xs font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+              >
+                <CheckIcon className="w-3 h-3 mr-1" /> Use this
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {picked.length > 0 && (
+        <div className="bg-indigo-50 border border-indigo-100 rounded-lg p-3 text-sm">
+          <p className="text-slate-700 mb-2">{merged}</p>
+          <div className="flex justify-end space-x-4 text-xs font-semibold">
+            <button onClick={() => setPicked([])} className="text-slate-500 hover:text-slate-700">Clear</button>
+            <button onClick={() => onChoose(merged, mergedStyles)} className="flex items-center text-indigo-600 hover:text-indigo-800">
+              <CheckIcon className="w-3 h-3 mr-1" /> Use merged
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
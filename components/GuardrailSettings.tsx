@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { GOOGLE_REPLY_MAX_BYTES } from '../services/replyGuardrails';
+
+interface GuardrailSettingsProps {
+  value?: string[];
+  onSave: (bannedPhrases: string[]) => void;
+  onCancel: () => void;
+}
+
+export const GuardrailSettings: React.FC<GuardrailSettingsProps> = ({ value, onSave, onCancel }) => {
+  const [text, setText] = useState((value || []).join('\n'));
+
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>Banned Phrases</label>
+        <textarea
+          rows={5}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={"One per line, e.g.\nguarantee\nfree meal\nrefund in full"}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white"
+        />
+        <p className="text-xs text-slate-500 mt-1">Replies containing any of these (case-insensitive) can't be posted.</p>
+      </div>
+      <div className="text-xs text-slate-500">
+        <p className="font-semibold text-slate-600 mb-1">Always checked before posting:</p>
+        <ul className="list-disc pl-5 space-y-0.5">
+          <li>Google's limit of {GOOGLE_REPLY_MAX_BYTES} bytes per reply</li>
+          <li>Leftover placeholders such as [Phone Number] or {'{reviewerName}'}</li>
+          <li>Phone numbers, emails and links that aren't in the knowledge base, or that the reviewer shared</li>
+          <li>Admissions of liability on 1-2 star reviews</li>
+          <li>Replies in another language than the one chosen, and the reviewer's full name (warnings only)</li>
+        </ul>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(text.split('\n').map(p => p.trim()).filter(Boolean))}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+        >
+          Save Guardrails
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { ConnectedLocation, KnowledgeBase } from '../types';
+
+interface KnowledgeBaseEditorProps {
+  locations: ConnectedLocation[];
+  value?: Record<string, KnowledgeBase>;
+  onSave: (knowledgeBase: Record<string, KnowledgeBase>) => void;
+  onCancel: () => void;
+}
+
+type ListField = 'staff' | 'signatureItems' | 'neverPromise';
+type TextField = 'contactChannels' | 'hours' | 'policies';
+
+// Lists are edited one entry per line
+const toLines = (items?: string[]) => (items || []).join('\n');
+const fromLines = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+
+export const KnowledgeBaseEditor: React.FC<KnowledgeBaseEditorProps> = ({ locations, value, onSave, onCancel }) => {
+  const [entries, setEntries] = useState<Record<string, KnowledgeBase>>(value || {});
+  const [locationId, setLocationId] = useState(locations[0]?.locationId || '');
+
+  const current = entries[locationId] || {};
+
+  const changeText = (key: TextField, text: string) => {
+    setEntries({ ...entries, [locationId]: { ...current, [key]: text || undefined } });
+  };
+
+  const changeList = (key: ListField, text: string) => {
+    // Kept as raw text while typing so blank lines don't vanish mid-edit
+    setEntries({ ...entries, [locationId]: { ...current, [key]: text.split('\n') } });
+  };
+
+  const copyFrom = (sourceId: string) => {
+    if (entries[sourceId]) setEntries({ ...entries, [locationId]: { ...entries[sourceId] } });
+  };
+
+  const handleSave = () => {
+    const cleaned: Record<string, KnowledgeBase> = {};
+    for (const id of Object.keys(entries)) {
+      const kb = entries[id];
+      cleaned[id] = {
+        ...kb,
+        staff: fromLines(toLines(kb.staff)),
+        signatureItems: fromLines(toLines(kb.signatureItems)),
+        neverPromise: fromLines(toLines(kb.neverPromise))
+      };
+    }
+    onSave(cleaned);
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white";
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-4">
+      {locations.length > 1 && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-[200px]">
+            <label className={labelClass}>Location</label>
+            <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className={inputClass}>
+              {locations.map(l => <option key={l.locationId} value={l.locationId}>{l.title}</option>)}
+            </select>
+          </div>
+          <select
+            value=""
+            onChange={(e) => copyFrom(e.target.value)}
+            className="px-3 py-2 border border-slate-200 rounded-lg text-xs text-slate-600 bg-white outline-none"
+          >
+            <option value="">Copy from another location…</option>
+            {locations.filter(l => l.locationId !== locationId && entries[l.locationId]).map(l => (
+              <option key={l.locationId} value={l.locationId}>{l.title}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        These facts are given to the AI so replies can point customers to real contact channels instead of generic phrases.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Contact Channels</label>
+          <textarea
+            rows={3}
+            value={current.contactChannels || ''}
+            onChange={(e) => changeText('contactChannels', e.target.value)}
+            placeholder="e.g. Call 028 1234 5678 or email care@example.com"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Opening Hours</label>
+          <textarea
+            rows={3}
+            value={current.hours || ''}
+            onChange={(e) => changeText('hours', e.target.value)}
+            placeholder="e.g. Mon–Fri 10:00–22:00, weekends 9:00–23:00"
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Policies</label>
+          <textarea
+            rows={3}
+            value={current.policies || ''}
+            onChange={(e) => changeText('policies', e.target.value)}
+            placeholder="Refunds, reservations, allergies, parking…"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Staff Names (one per line)</label>
+          <textarea
+            rows={3}
+            value={toLines(current.staff)}
+            onChange={(e) => changeList('staff', e.target.value)}
+            placeholder={"Linh (Manager)\nDr. Patel"}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Signature Dishes / Services (one per line)</label>
+          <textarea
+            rows={3}
+            value={toLines(current.signatureItems)}
+            onChange={(e) => changeList('signatureItems', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Never Promise (one per line)</label>
+          <textarea
+            rows={2}
+            value={toLines(current.neverPromise)}
+            onChange={(e) => changeList('neverPromise', e.target.value)}
+            placeholder={"Free meals\nRefunds without a receipt"}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+        >
+          Save Knowledge Base
+        </button>
+      </div>
+    </div>
+  );
+};
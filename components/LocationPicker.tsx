@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { GoogleAccount, GoogleLocation } from '../types';
+import { fetchAccounts, fetchLocations, formatAddress, toLocationResourceName } from '../services/googleBusinessService';
+import { getErrorMessage } from '../services/googleApiErrors';
+import { ArrowPathIcon, MapPinIcon, InformationCircleIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface LocationPickerProps {
+  accessToken: string;
+  currentLocationIds?: string[];
+  onSelect: (account: GoogleAccount, locations: GoogleLocation[]) => void;
+  onCancel?: () => void;
+}
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({ accessToken, currentLocationIds = [], onSelect, onCancel }) => {
+  const [accounts, setAccounts] = useState<GoogleAccount[]>([]);
+  const [selectedAccount, setSelectedAccount] = useState<string>('');
+  const [locations, setLocations] = useState<GoogleLocation[]>([]);
+  const [loadingAccounts, setLoadingAccounts] = useState(false);
+  const [loadingLocations, setLoadingLocations] = useState(false);
+  const [error, setError] = useState('');
+  const [multiSelect, setMultiSelect] = useState(currentLocationIds.length > 1);
+  const [checked, setChecked] = useState<string[]>(currentLocationIds);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (selectedAccount) {
+      loadLocations(selectedAccount);
+    }
+  }, [selectedAccount]);
+
+  const loadAccounts = async () => {
+    setLoadingAccounts(true);
+    setError('');
+    try {
+      const data = await fetchAccounts(accessToken);
+      const list = data.accounts || [];
+      if (list.length === 0) {
+        throw new Error("No Google Business accounts found. Ensure your Google account manages a business.");
+      }
+      setAccounts(list);
+
+      // Preselect the account of the current location when switching
+      const current = list.find(a => currentLocationIds.some(id => id.startsWith(`${a.name}/`)));
+      setSelectedAccount(current ? current.name : list[0].name);
+    } catch (err: any) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoadingAccounts(false);
+    }
+  };
+
+  const loadLocations = async (accountName: string) => {
+    setLoadingLocations(true);
+    setLocations([]);
+    setError('');
+    try {
+      const data = await fetchLocations(accessToken, accountName);
+      if (!data.locations || data.locations.length === 0) {
+        throw new Error("No verified locations found for this account.");
+      }
+      setLocations(data.locations);
+    } catch (err: any) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setLoadingLocations(false);
+    }
+  };
+
+  const account = accounts.find(a => a.name === selectedAccount);
+  const checkedCount = account ? checked.filter(id => id.startsWith(`${account.name}/`)).length : 0;
+
+  const toggleChecked = (resourceName: string) => {
+    setChecked(prev => prev.includes(resourceName)
+      ? prev.filter(id => id !== resourceName)
+      : [...prev, resourceName]);
+  };
+
+  const confirmMultiple = () => {
+    if (!account) return;
+    const selected = locations.filter(l => checked.includes(toLocationResourceName(account.name, l.name)));
+    if (selected.length > 0) onSelect(account, selected);
+  };
+
+  return (
+    <div className="text-left">
+      {loadingAccounts ? (
+        <div className="text-center py-8 text-slate-400">
+          <ArrowPathIcon className="w-8 h-8 animate-spin mx-auto mb-2" />
+          <p className="text-sm">Loading accounts...</p>
+        </div>
+      ) : (
+        <>
+          {accounts.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-xs font-bold text-slate-600 uppercase mb-1">Account</label>
+              <select
+                value={selectedAccount}
+                onChange={(e) => setSelectedAccount(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none text-sm bg-white"
+              >
+                {accounts.map(a => (
+                  <option key={a.name} value={a.name}>{a.accountName || a.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-4 bg-red-50 text-red-700 text-xs rounded-xl border border-red-100 flex items-start">
+              <InformationCircleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {loadingLocations ? (
+            <div className="text-center py-8 text-slate-400">
+              <ArrowPathIcon className="w-6 h-6 animate-spin mx-auto mb-2" />
+              <p className="text-sm">Loading locations...</p>
+            </div>
+          ) : locations.length > 0 && account && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-xs font-bold text-slate-600 uppercase">Location</label>
+                {locations.length > 1 && (
+                  <label className="flex items-center text-xs text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={multiSelect}
+                      onChange={(e) => setMultiSelect(e.target.checked)}
+                      className="mr-1"
+                    />
+                    Select multiple
+                  </label>
+                )}
+              </div>
+              <ul className="space-y-2 max-h-80 overflow-y-auto">
+                {locations.map(location => {
+                  const resourceName = toLocationResourceName(account.name, location.name);
+                  const isCurrent = multiSelect ? checked.includes(resourceName) : currentLocationIds.includes(resourceName);
+                  return (
+                    <li key={location.name}>
+                      <button
+                        onClick={() => multiSelect ? toggleChecked(resourceName) : onSelect(account, [location])}
+                        className={`w-full flex items-start p-3 rounded-lg border text-left transition hover:border-blue-400 hover:bg-blue-50/50
+                          ${isCurrent ? 'border-blue-300 bg-blue-50' : 'border-slate-200'}`}
+                      >
+                        <MapPinIcon className="w-5 h-5 mr-3 mt-0.5 text-slate-400 flex-shrink-0" />
+                        <div className="flex-grow min-w-0">
+                          <div className="flex items-center justify-between">
+                            <span className="font-semibold text-sm text-slate-800 truncate">{location.title || location.name}</span>
+                            {isCurrent && <CheckCircleIcon className="w-5 h-5 text-blue-600 flex-shrink-0" />}
+                          </div>
+                          {location.storeCode && (
+                            <span className="block text-xs text-slate-500 font-mono">Store code: {location.storeCode}</span>
+                          )}
+                          {location.storefrontAddress && (
+                            <span className="block text-xs text-slate-500">{formatAddress(location.storefrontAddress)}</span>
+                          )}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {multiSelect && (
+                <button
+                  onClick={confirmMultiple}
+                  disabled={checkedCount === 0}
+                  className="mt-4 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg text-sm transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Connect {checkedCount} Locations
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {onCancel && (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
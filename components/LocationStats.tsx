@@ -0,0 +1,45 @@
+import React from 'react';
+import { ConnectedLocation, GoogleReview } from '../types';
+import { MapPinIcon } from '@heroicons/react/24/solid';
+
+interface LocationStatsProps {
+  locations: ConnectedLocation[];
+  reviews: GoogleReview[];
+  selectedLocationId: string;
+  onSelect: (locationId: string) => void;
+}
+
+export const LocationStats: React.FC<LocationStatsProps> = ({ locations, reviews, selectedLocationId, onSelect }) => {
+  const countFor = (locationId: string, status: GoogleReview['status']) =>
+    reviews.filter(r => r.locationId === locationId && r.status === status).length;
+
+  // Drafts count whatever approval state they are in
+  const draftCountFor = (locationId: string) =>
+    reviews.filter(r => r.locationId === locationId && r.status !== 'pending' && r.status !== 'replied').length;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-6">
+      {locations.map(location => {
+        const isSelected = selectedLocationId === location.locationId;
+        return (
+          <button
+            key={location.locationId}
+            onClick={() => onSelect(isSelected ? '' : location.locationId)}
+            className={`text-left bg-white rounded-xl border p-4 transition hover:border-indigo-300
+              ${isSelected ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'}`}
+          >
+            <div className="flex items-center text-sm font-semibold text-slate-800 mb-2 truncate">
+              <MapPinIcon className="w-4 h-4 mr-1 text-slate-400 flex-shrink-0" />
+              <span className="truncate">{location.title}</span>
+            </div>
+            <div className="flex space-x-3 text-xs font-medium">
+              <span className="text-red-600">{countFor(location.locationId, 'pending')} pending</span>
+              <span className="text-amber-600">{draftCountFor(location.locationId)} drafted</span>
+              <span className="text-green-600">{countFor(location.locationId, 'replied')} replied</span>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
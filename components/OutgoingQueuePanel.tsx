@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { GoogleReview, PostQueueItem } from '../types';
+import { ArrowPathIcon, ArrowUturnLeftIcon, CheckCircleIcon, ClockIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface OutgoingQueuePanelProps {
+  items: PostQueueItem[];
+  reviews: GoogleReview[];
+  undoWindowSeconds: number;
+  onUndoWindowChange: (seconds: number) => void;
+  onUndo: (reviewId: string) => void;
+  onRetry: (reviewId: string) => void;
+  onRemove: (reviewId: string) => void;
+  onClearPosted: () => void;
+}
+
+const UNDO_WINDOW_OPTIONS = [10, 30, 60, 120];
+
+export const OutgoingQueuePanel: React.FC<OutgoingQueuePanelProps> = ({
+  items,
+  reviews,
+  undoWindowSeconds,
+  onUndoWindowChange,
+  onUndo,
+  onRetry,
+  onRemove,
+  onClearPosted
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const hasWaiting = items.some(item => item.status === 'waiting');
+
+  // Tick once a second while a countdown is visible
+  useEffect(() => {
+    if (!hasWaiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasWaiting]);
+
+  const reviewerName = (reviewId: string) =>
+    reviews.find(r => r.id === reviewId)?.reviewerName || reviewId;
+
+  const count = (status: PostQueueItem['status']) => items.filter(item => item.status === status).length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-sm font-semibold text-slate-800">
+          Outgoing Replies
+          <span className="ml-2 font-normal text-xs text-slate-500">
+            {count('waiting')} pending · {count('posted')} posted · {count('failed')} failed
+          </span>
+        </div>
+        <div className="flex items-center space-x-3 text-xs">
+          <label className="text-slate-500">
+            Undo window
+            <select
+              value={undoWindowSeconds}
+              onChange={(e) => onUndoWindowChange(Number(e.target.value))}
+              className="ml-1 bg-transparent font-medium text-slate-700 outline-none cursor-pointer"
+            >
+              {UNDO_WINDOW_OPTIONS.map(s => <option key={s} value={s}>{s}s</option>)}
+            </select>
+          </label>
+          {count('posted') > 0 && (
+            <button onClick={onClearPosted} className="text-slate-500 hover:text-slate-800 font-medium">
+              Clear posted
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {items.map(item => (
+          <li key={item.reviewId} className="py-2 flex items-center justify-between text-sm">
+            <div className="min-w-0 flex-grow mr-4">
+              <div className="flex items-center">
+                {item.status === 'waiting' && <ClockIcon className="w-4 h-4 mr-2 text-amber-500 flex-shrink-0" />}
+                {item.status === 'posting' && <ArrowPathIcon className="w-4 h-4 mr-2 text-indigo-500 animate-spin flex-shrink-0" />}
+                {item.status === 'posted' && <CheckCircleIcon className="w-4 h-4 mr-2 text-green-500 flex-shrink-0" />}
+                {item.status === 'failed' && <ExclamationTriangleIcon className="w-4 h-4 mr-2 text-red-500 flex-shrink-0" />}
+                <span className="font-medium text-slate-800 mr-2">{reviewerName(item.reviewId)}</span>
+                <span className="text-slate-500 truncate">{item.content}</span>
+              </div>
+              {item.status === 'failed' && item.error && (
+                <p className="text-xs text-red-600 ml-6 mt-0.5">{item.error}</p>
+              )}
+            </div>
+            <div className="flex items-center space-x-3 flex-shrink-0 text-xs font-medium">
+              {item.status === 'waiting' && (
+                <>
+                  <span className="text-amber-600">Posting in {Math.max(Math.ceil((item.sendAt - now) / 1000), 0)}s</span>
+                  <button onClick={() => onUndo(item.reviewId)} className="flex items-center text-indigo-600 hover:text-indigo-800">
+                    <ArrowUturnLeftIcon className="w-3 h-3 mr-1" /> Undo
+                  </button>
+                </>
+              )}
+              {item.status === 'posting' && <span className="text-indigo-600">Posting...</span>}
+              {item.status === 'posted' && <span className="text-green-600">Posted</span>}
+              {item.status === 'failed' && (
+                <button onClick={() => onRetry(item.reviewId)} className="flex items-center text-indigo-600 hover:text-indigo-800">
+                  <ArrowPathIcon className="w-3 h-3 mr-1" /> Retry
+                </button>
+              )}
+              {(item.status === 'failed' || item.status === 'posted') && (
+                <button onClick={() => onRemove(item.reviewId)} className="text-slate-400 hover:text-slate-600">
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
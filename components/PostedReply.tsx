@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { GoogleReview } from '../types';
+import { ArrowPathIcon, CheckCircleIcon, PencilSquareIcon, TrashIcon } from '@heroicons/react/24/solid';
+
+interface PostedReplyProps {
+  review: GoogleReview;
+  busy: boolean;
+  readOnly?: boolean; // Hides editing and deleting, e.g. for team members who can't post
+  onSave: (text: string) => Promise<boolean>;
+  onDelete: () => Promise<boolean>;
+}
+
+export const PostedReply: React.FC<PostedReplyProps> = ({ review, busy, readOnly, onSave, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = () => {
+    setDraft(review.replyContent || '');
+    setIsConfirmingDelete(false);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (await onSave(draft)) setIsEditing(false);
+  };
+
+  const handleDelete = async () => {
+    if (await onDelete()) setIsConfirmingDelete(false);
+  };
+
+  return (
+    <div className="bg-green-50 rounded-lg p-4 border border-green-100">
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center text-green-700 font-semibold text-sm">
+          <CheckCircleIcon className="w-4 h-4 mr-2" />
+          Posted Reply
+          {review.replyUpdateTime && (
+            <span className="ml-2 text-xs font-normal text-slate-500">
+              · updated {new Date(review.replyUpdateTime).toLocaleString()}
+            </span>
+          )}
+        </div>
+        {!readOnly && !isEditing && !isConfirmingDelete && (
+          <div className="flex space-x-3">
+            <button
+              onClick={startEditing}
+              disabled={busy}
+              className="text-xs text-indigo-600 hover:underline flex items-center disabled:opacity-50"
+            >
+              <PencilSquareIcon className="w-3 h-3 mr-1" /> Edit
+            </button>
+            <button
+              onClick={() => setIsConfirmingDelete(true)}
+              disabled={busy}
+              className="text-xs text-red-600 hover:underline flex items-center disabled:opacity-50"
+            >
+              <TrashIcon className="w-3 h-3 mr-1" /> Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full p-3 text-sm rounded-md border border-slate-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none bg-white"
+            rows={3}
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={busy}
+              className="px-4 py-2 text-slate-600 hover:bg-white rounded-lg text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={busy || !draft.trim()}
+              className="flex items-center space-x-2 bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
+            >
+              {busy && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              <span>Update Reply</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-slate-600 text-sm">{review.replyContent}</p>
+      )}
+
+      {isConfirmingDelete && (
+        <div className="mt-3 p-3 bg-red-50 rounded-lg border border-red-100 flex justify-between items-center">
+          <span className="text-sm text-red-700">Delete this reply from Google? The review will go back to pending.</span>
+          <div className="flex space-x-2 flex-shrink-0 ml-3">
+            <button
+              onClick={() => setIsConfirmingDelete(false)}
+              disabled={busy}
+              className="px-3 py-1.5 text-slate-600 hover:bg-white rounded-lg text-sm font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={busy}
+              className="flex items-center space-x-1 bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition disabled:opacity-50"
+            >
+              {busy && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+              <span>Delete</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { GuardrailFinding } from '../types';
+import { ExclamationCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+
+interface ReplyGuardrailsProps {
+  findings: GuardrailFinding[];
+}
+
+export const ReplyGuardrails: React.FC<ReplyGuardrailsProps> = ({ findings }) => {
+  if (!findings.length) return null;
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {findings.map((finding, i) => (
+        <li key={i} className={`flex items-start ${finding.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+          {finding.severity === 'error'
+            ? <ExclamationCircleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+            : <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />}
+          <span>{finding.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
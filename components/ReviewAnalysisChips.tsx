@@ -0,0 +1,45 @@
+import React from 'react';
+import { ReviewAnalysis, ReviewTopic, Sentiment } from '../types';
+import { TOPIC_LABELS } from '../services/analysisService';
+import { BoltIcon, UserIcon } from '@heroicons/react/24/solid';
+
+interface ReviewAnalysisChipsProps {
+  analysis: ReviewAnalysis;
+  activeTopic?: ReviewTopic | '';
+  onTopicClick: (topic: ReviewTopic) => void;
+}
+
+export const SENTIMENT_STYLES: Record<Sentiment, string> = {
+  positive: 'bg-green-50 text-green-700 border-green-200',
+  neutral: 'bg-slate-50 text-slate-600 border-slate-200',
+  negative: 'bg-red-50 text-red-700 border-red-200',
+  mixed: 'bg-amber-50 text-amber-700 border-amber-200'
+};
+
+export const ReviewAnalysisChips: React.FC<ReviewAnalysisChipsProps> = ({ analysis, activeTopic, onTopicClick }) => (
+  <div className="flex flex-wrap items-center gap-1.5 text-xs">
+    <span className={`px-2 py-0.5 rounded-full border font-semibold capitalize ${SENTIMENT_STYLES[analysis.sentiment]}`}>
+      {analysis.sentiment}
+    </span>
+    {analysis.urgency !== 'low' && (
+      <span className={`px-2 py-0.5 rounded-full border font-semibold flex items-center ${analysis.urgency === 'high' ? 'bg-red-600 text-white border-red-600' : 'bg-orange-50 text-orange-700 border-orange-200'}`}>
+        <BoltIcon className="w-3 h-3 mr-0.5" /> {analysis.urgency === 'high' ? 'Urgent' : 'Needs attention'}
+      </span>
+    )}
+    {analysis.topics.map(({ topic, sentiment }) => (
+      <button
+        key={topic}
+        onClick={() => onTopicClick(topic)}
+        title={`${TOPIC_LABELS[topic]}: ${sentiment}. Click to filter.`}
+        className={`px-2 py-0.5 rounded-full border transition hover:shadow-sm ${SENTIMENT_STYLES[sentiment]} ${activeTopic === topic ? 'ring-2 ring-indigo-400' : ''}`}
+      >
+        {TOPIC_LABELS[topic]}
+      </button>
+    ))}
+    {analysis.staffNames.map(name => (
+      <span key={name} className="px-2 py-0.5 rounded-full border bg-indigo-50 text-indigo-700 border-indigo-200 flex items-center">
+        <UserIcon className="w-3 h-3 mr-0.5" /> {name}
+      </span>
+    ))}
+  </div>
+);
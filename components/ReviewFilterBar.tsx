@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { ReviewFilterPreset, ReviewQuery, ReviewSortKey, ReviewStatus, ReviewTopic, Sentiment } from '../types';
+import { DEFAULT_REVIEW_QUERY, REVIEW_STATUSES, SORT_LABELS, isQueryFiltered } from '../services/reviewQuery';
+import { SENTIMENTS, TOPIC_LABELS } from '../services/analysisService';
+import { STATUS_LABELS } from '../services/approvalWorkflow';
+import { MagnifyingGlassIcon, BookmarkIcon, StarIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface ReviewFilterBarProps {
+  query: ReviewQuery;
+  onChange: (query: ReviewQuery) => void;
+  topics: ReviewTopic[]; // Topics found in analyzed reviews; analysis filters are hidden when empty
+  presets: ReviewFilterPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  resultCount: number;
+  totalCount: number;
+}
+
+const toggle = <T,>(values: T[] | undefined, value: T): T[] =>
+  values?.includes(value) ? values.filter(v => v !== value) : [...(values || []), value];
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded-full border font-medium transition ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`;
+
+export const ReviewFilterBar: React.FC<ReviewFilterBarProps> = ({ query, onChange, topics, presets, onSavePreset, onDeletePreset, resultCount, totalCount }) => {
+  const [presetName, setPresetName] = useState('');
+  const [naming, setNaming] = useState(false);
+
+  const set = (changes: Partial<ReviewQuery>) => onChange({ ...query, ...changes });
+  const activePreset = presets.find(p => JSON.stringify(p.query) === JSON.stringify(query));
+  const inputClass = "bg-slate-50 border border-slate-200 rounded-md px-2 py-1 text-slate-700 outline-none";
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+    setNaming(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 px-4 py-3 mb-6 text-xs space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center flex-1 min-w-[200px] bg-slate-50 border border-slate-200 rounded-md px-2">
+          <MagnifyingGlassIcon className="w-4 h-4 text-slate-400" />
+          <input
+            type="search"
+            value={query.search || ''}
+            onChange={(e) => set({ search: e.target.value })}
+            placeholder="Search reviews and replies..."
+            className="flex-1 bg-transparent px-2 py-1.5 text-sm text-slate-700 outline-none"
+          />
+        </div>
+        <input
+          type="text"
+          value={query.reviewer || ''}
+          onChange={(e) => set({ reviewer: e.target.value })}
+          placeholder="Reviewer"
+          className={`${inputClass} w-32 py-1.5`}
+        />
+        <select value={query.sort} onChange={(e) => set({ sort: e.target.value as ReviewSortKey })} className={`${inputClass} py-1.5`}>
+          {(Object.keys(SORT_LABELS) as ReviewSortKey[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+        </select>
+        {presets.length > 0 && (
+          <select
+            value={activePreset?.id || ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) onChange(preset.query);
+            }}
+            className={`${inputClass} py-1.5`}
+          >
+            <option value="">Presets...</option>
+            {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        )}
+        {activePreset ? (
+          <button onClick={() => onDeletePreset(activePreset.id)} className="flex items-center text-slate-500 hover:text-red-600" title="Delete preset">
+            <TrashIcon className="w-3 h-3 mr-0.5" /> Delete preset
+          </button>
+        ) : naming ? (
+          <span className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+              placeholder="Preset name"
+              className={`${inputClass} w-32`}
+            />
+            <button onClick={savePreset} disabled={!presetName.trim()} className="font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50">Save</button>
+            <button onClick={() => setNaming(false)} className="text-slate-400 hover:text-slate-600"><XMarkIcon className="w-3 h-3" /></button>
+          </span>
+        ) : (
+          <button onClick={() => setNaming(true)} className="flex items-center text-indigo-600 hover:text-indigo-800 font-medium">
+            <BookmarkIcon className="w-3 h-3 mr-0.5" /> Save as preset
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {[5, 4, 3, 2, 1].map(rating => (
+          <button key={rating} onClick={() => set({ ratings: toggle(query.ratings, rating) })} className={`${chipClass(!!query.ratings?.includes(rating))} flex items-center`}>
+            {rating}<StarIcon className="w-3 h-3 ml-0.5" />
+          </button>
+        ))}
+        <span className="h-4 w-px bg-slate-200" />
+        {REVIEW_STATUSES.map(status => (
+          <button key={status} onClick={() => set({ statuses: toggle<ReviewStatus>(query.statuses, status) })} className={chipClass(!!query.statuses?.includes(status))}>
+            {STATUS_LABELS[status]}
+          </button>
+        ))}
+        <span className="h-4 w-px bg-slate-200" />
+        <select
+          value={query.hasText === undefined ? '' : String(query.hasText)}
+          onChange={(e) => set({ hasText: e.target.value === '' ? undefined : e.target.value === 'true' })}
+          className={inputClass}
+        >
+          <option value="">With or without text</option>
+          <option value="true">With text</option>
+          <option value="false">Rating only</option>
+        </select>
+        <input type="date" value={query.from || ''} onChange={(e) => set({ from: e.target.value || undefined })} className={inputClass} title="From" />
+        <span className="text-slate-400">to</span>
+        <input type="date" value={query.to || ''} onChange={(e) => set({ to: e.target.value || undefined })} className={inputClass} title="To" />
+      </div>
+
+      {topics.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={query.sentiment || ''}
+            onChange={(e) => set({ sentiment: (e.target.value || undefined) as Sentiment | undefined })}
+            className={`${inputClass} capitalize`}
+          >
+            <option value="">Any sentiment</option>
+            {SENTIMENTS.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          {topics.map(topic => (
+            <button key={topic} onClick={() => set({ topic: query.topic === topic ? undefined : topic })} className={chipClass(query.topic === topic)}>
+              {TOPIC_LABELS[topic]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isQueryFiltered(query) && (
+        <div className="flex items-center justify-between text-slate-500">
+          <span>{resultCount} of {totalCount} reviews match</span>
+          <button
+            onClick={() => onChange({ ...DEFAULT_REVIEW_QUERY, sort: query.sort })}
+            className="flex items-center hover:text-slate-800"
+          >
+            <XMarkIcon className="w-3 h-3 mr-0.5" /> Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { BusinessProfile, Language, ReviewData, Tone } from '../types';
-import { generateReviewReply } from '../services/geminiService';
+import { generateReviewReply, refineReply } from '../services/geminiService';
+import { getErrorMessage } from '../services/googleApiErrors';
+import { matchTemplate } from '../services/templateService';
+import { detectLanguage, splitGoogleTranslation } from '../services/languageService';
+import { checkReply } from '../services/replyGuardrails';
+import { ReplyGuardrails } from './ReplyGuardrails';
+import { DraftRefiner } from './DraftRefiner';
 import { StarIcon as StarIconSolid } from '@heroicons/react/24/solid';
 import { StarIcon as StarIconOutline } from '@heroicons/react/24/outline';
 import { 
@@ -22,14 +28,29 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
   const [rating, setRating] = useState<number>(5);
   const [reviewContent, setReviewContent] = useState('');
   const [tone, setTone] = useState<Tone>(Tone.Professional);
-  const [language, setLanguage] = useState<Language>(Language.Vietnamese);
+  const [language, setLanguage] = useState<Language | ''>(''); // '' follows the detected language
+  const [templateChoice, setTemplateChoice] = useState(''); // '' lets the rules decide, 'none' skips templates
 
-  // Output State
-  const [generatedReply, setGeneratedReply] = useState('');
+  // Output State: every generated or refined reply, the shown one picked by undo/redo
+  const [revisions, setRevisions] = useState<string[]>([]);
+  const [revisionIndex, setRevisionIndex] = useState(-1);
+  const generatedReply = revisions[revisionIndex] || '';
   const [isLoading, setIsLoading] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
   const [error, setError] = useState('');
   const [copied, setCopied] = useState(false);
 
+  // Pasted reviews often include Google's translation; only the reviewer's own words matter
+  const originalContent = splitGoogleTranslation(reviewContent).original;
+  const detectedLanguage = detectLanguage(originalContent);
+  const replyLanguage = language || detectedLanguage || Language.Vietnamese;
+
+  const templates = businessProfile.templateLibrary?.templates || [];
+  const matchedTemplate = matchTemplate(businessProfile.templateLibrary, { reviewerName, rating, content: originalContent }, replyLanguage);
+  const template = templateChoice === 'none'
+    ? undefined
+    : templateChoice ? templates.find(t => t.id === templateChoice) : matchedTemplate;
+
   const handleGenerate = async () => {
     if (!reviewContent.trim()) {
       setError("Please paste the review content first.");
@@ -37,31 +58,60 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
     }
     setError('');
     setIsLoading(true);
-    setGeneratedReply('');
+    setRevisions([]);
+    setRevisionIndex(-1);
     setCopied(false);
 
     try {
       const reviewData: ReviewData = {
         reviewerName,
         rating,
-        content: reviewContent
+        content: originalContent
       };
 
       const reply = await generateReviewReply({
         businessProfile,
         review: reviewData,
+        template,
         tone,
-        language
+        language: replyLanguage
       });
 
-      setGeneratedReply(reply);
+      setRevisions([reply]);
+      setRevisionIndex(0);
     } catch (err) {
-      setError("Failed to generate reply. Please try again.");
+      console.error(err);
+      setError(getErrorMessage(err));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Like the dashboard's draft history, a refinement after an undo is added at the end
+  const handleRefine = async (instruction: string) => {
+    setError('');
+    setIsRefining(true);
+    setCopied(false);
+
+    try {
+      const reply = await refineReply({
+        businessProfile,
+        review: { reviewerName, rating, content: originalContent },
+        draft: generatedReply,
+        instruction,
+        language: replyLanguage
+      });
+
+      setRevisions(prev => [...prev, reply]);
+      setRevisionIndex(revisions.length);
+    } catch (err) {
+      console.error(err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
   const copyToClipboard = () => {
     if (generatedReply) {
       navigator.clipboard.writeText(generatedReply);
@@ -158,9 +208,10 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
                 <label className="block text-sm font-medium text-slate-700 mb-2">Language</label>
                 <select
                   value={language}
-                  onChange={(e) => setLanguage(e.target.value as Language)}
+                  onChange={(e) => setLanguage(e.target.value as Language | '')}
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
                 >
+                  <option value="">Same as review ({detectedLanguage || 'not detected'})</option>
                   {Object.values(Language).map((l) => (
                     <option key={l} value={l}>{l}</option>
                   ))}
@@ -168,6 +219,23 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
               </div>
             </div>
 
+            {templates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">Template</label>
+                <select
+                  value={templateChoice}
+                  onChange={(e) => setTemplateChoice(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+                >
+                  <option value="">Automatic ({matchedTemplate?.name || 'none matched'})</option>
+                  <option value="none">No template</option>
+                  {templates.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {error && (
               <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100">
                 {error}
@@ -176,9 +244,9 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
 
             <button
               onClick={handleGenerate}
-              disabled={isLoading || !reviewContent}
+              disabled={isLoading || isRefining || !reviewContent}
               className={`w-full py-3 px-6 rounded-lg font-semibold text-white shadow-md flex items-center justify-center space-x-2 transition-all
-                ${isLoading || !reviewContent 
+                ${isLoading || isRefining || !reviewContent 
                   ? 'bg-slate-300 cursor-not-allowed' 
                   : 'bg-indigo-600 hover:bg-indigo-700 hover:shadow-lg active:scale-[0.99]'}`}
             >
@@ -236,6 +304,25 @@ export const ReviewGenerator: React.FC<ReviewGeneratorProps> = ({ businessProfil
                         value={generatedReply}
                         className="w-full h-[350px] p-4 bg-slate-50 rounded-xl border border-slate-200 text-slate-700 leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-500/50 resize-none font-sans text-base"
                       />
+                      <div className="mt-3">
+                        <DraftRefiner
+                          busy={isRefining}
+                          canUndo={revisionIndex > 0}
+                          canRedo={revisionIndex < revisions.length - 1}
+                          onRefine={handleRefine}
+                          onUndo={() => setRevisionIndex(revisionIndex - 1)}
+                          onRedo={() => setRevisionIndex(revisionIndex + 1)}
+                        />
+                      </div>
+                      <div className="mt-3">
+                        <ReplyGuardrails
+                          findings={checkReply(generatedReply, {
+                            businessProfile,
+                            review: { reviewerName, rating, content: originalContent },
+                            language: replyLanguage
+                          })}
+                        />
+                      </div>
                       <p className="mt-4 text-xs text-slate-400 text-center">
                         AI-generated content may be inaccurate. Please review before posting.
                       </p>
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { TeamMember, TeamRole } from '../types';
+import { ROLE_LABELS } from '../services/approvalWorkflow';
+import { createId } from '../services/ids';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface TeamEditorProps {
+  value?: TeamMember[];
+  // Google email of whoever is signed in, used for the first member
+  currentEmail?: string;
+  onSave: (team: TeamMember[]) => void;
+  onCancel: () => void;
+}
+
+const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  drafter: 'Writes drafts and submits them for review',
+  approver: 'Approves, rejects and posts replies',
+  admin: 'Everything an approver does, plus team and auto-reply settings'
+};
+
+export const TeamEditor: React.FC<TeamEditorProps> = ({ value, currentEmail, onSave, onCancel }) => {
+  const [team, setTeam] = useState<TeamMember[]>(
+    // Teams set up before sign-in was checked have no emails yet
+    () => (value || []).map(m => ({ ...m, email: m.email || '' }))
+  );
+
+  const updateMember = (id: string, changes: Partial<TeamMember>) => {
+    setTeam(team.map(m => m.id === id ? { ...m, ...changes } : m));
+  };
+
+  const addMember = () => {
+    // The first member is whoever sets up the team, so they start as admin
+    setTeam([...team, team.length
+      ? { id: createId(), name: '', email: '', role: 'drafter' }
+      : { id: createId(), name: '', email: currentEmail || '', role: 'admin' }]);
+  };
+
+  const hasAdmin = team.some(m => m.role === 'admin');
+  const emails = team.map(m => m.email.trim().toLowerCase());
+  const hasDuplicateEmail = new Set(emails).size !== emails.length;
+  const isValid = team.every(m => m.name.trim() && m.email.includes('@')) && !hasDuplicateEmail && (team.length === 0 || hasAdmin);
+
+  const inputClass = "px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white";
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={labelClass}>Team</label>
+          <button onClick={addMember} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center">
+            <PlusIcon className="w-3 h-3 mr-1" /> Add Member
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          With a team set up, drafts need an approver before they can be posted, and replies to negative reviews need two.
+          Without one, whoever opens the app can post. Members sign in with the Google account of the email given here.
+        </p>
+
+        {team.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">No team yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {team.map(member => (
+              <div key={member.id} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={member.name}
+                  onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                  placeholder="Name"
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  type="email"
+                  value={member.email}
+                  onChange={(e) => updateMember(member.id, { email: e.target.value })}
+                  placeholder="Google account email"
+                  className={`${inputClass} flex-1`}
+                />
+                <select
+                  value={member.role}
+                  onChange={(e) => updateMember(member.id, { role: e.target.value as TeamRole })}
+                  title={ROLE_DESCRIPTIONS[member.role]}
+                  className={inputClass}
+                >
+                  {(Object.keys(ROLE_LABELS) as TeamRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button onClick={() => setTeam(team.filter(m => m.id !== member.id))} className="p-2 text-slate-400 hover:text-red-600" title="Remove member">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <ul className="mt-3 text-xs text-slate-500 space-y-0.5">
+          {(Object.keys(ROLE_LABELS) as TeamRole[]).map(r => <li key={r}><strong>{ROLE_LABELS[r]}:</strong> {ROLE_DESCRIPTIONS[r]}</li>)}
+        </ul>
+        {team.length > 0 && !hasAdmin && <p className="mt-2 text-xs text-red-600">Keep at least one admin.</p>}
+        {hasDuplicateEmail && <p className="mt-2 text-xs text-red-600">Each email can only be on the team once.</p>}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(team.map(m => ({ ...m, name: m.name.trim(), email: m.email.trim().toLowerCase() })))}
+          disabled={!isValid}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition disabled:opacity-50"
+        >
+          Save Team
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Language, ReplyTemplate, TemplateLibrary, TemplateRule } from '../types';
+import { EMPTY_TEMPLATE_LIBRARY, TEMPLATE_VARIABLES } from '../services/templateService';
+import { createId } from '../services/ids';
+import { PlusIcon, TrashIcon, ArrowUpIcon } from '@heroicons/react/24/outline';
+
+interface TemplateLibraryEditorProps {
+  value?: TemplateLibrary;
+  onSave: (library: TemplateLibrary) => void;
+  onCancel: () => void;
+}
+
+const parseRating = (raw: string) => raw === '' ? undefined : Number(raw);
+
+export const TemplateLibraryEditor: React.FC<TemplateLibraryEditorProps> = ({ value, onSave, onCancel }) => {
+  const [library, setLibrary] = useState<TemplateLibrary>(value || EMPTY_TEMPLATE_LIBRARY);
+  const { templates, rules } = library;
+
+  const updateTemplate = (id: string, changes: Partial<ReplyTemplate>) => {
+    setLibrary({ ...library, templates: templates.map(t => t.id === id ? { ...t, ...changes } : t) });
+  };
+
+  const addTemplate = () => {
+    const template: ReplyTemplate = {
+      id: createId(),
+      name: 'New template',
+      body: 'Thank you {reviewerName}! We hope to see you again soon at {businessName}.\n{signature}',
+      mode: 'skeleton'
+    };
+    setLibrary({ ...library, templates: [...templates, template] });
+  };
+
+  const removeTemplate = (id: string) => {
+    setLibrary({
+      templates: templates.filter(t => t.id !== id),
+      rules: rules.filter(r => r.templateId !== id)
+    });
+  };
+
+  const updateRule = (id: string, changes: Partial<TemplateRule>) => {
+    setLibrary({ ...library, rules: rules.map(r => r.id === id ? { ...r, ...changes } : r) });
+  };
+
+  const addRule = () => {
+    if (!templates.length) return;
+    setLibrary({ ...library, rules: [...rules, { id: createId(), templateId: templates[0].id }] });
+  };
+
+  const moveRuleUp = (index: number) => {
+    const next = [...rules];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setLibrary({ ...library, rules: next });
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm bg-white";
+  const smallInputClass = "px-2 py-1 border border-slate-300 rounded-md text-xs bg-white outline-none";
+  const labelClass = "block text-xs font-bold text-slate-600 uppercase mb-1";
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={labelClass}>Templates</label>
+          <button onClick={addTemplate} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center">
+            <PlusIcon className="w-3 h-3 mr-1" /> Add Template
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Variables: {TEMPLATE_VARIABLES.map(v => <code key={v} className="bg-slate-100 px-1 rounded mr-1">{`{${v}}`}</code>)}
+        </p>
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">No templates yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {templates.map(template => (
+              <div key={template.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={template.name}
+                    onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                    className={`${inputClass} font-medium`}
+                  />
+                  <select
+                    value={template.mode}
+                    onChange={(e) => updateTemplate(template.id, { mode: e.target.value as ReplyTemplate['mode'] })}
+                    className={`${inputClass} w-auto`}
+                  >
+                    <option value="reply">Use as the reply</option>
+                    <option value="skeleton">AI personalizes it</option>
+                  </select>
+                  <button onClick={() => removeTemplate(template.id)} className="p-2 text-slate-400 hover:text-red-600" title="Delete template">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+                <textarea
+                  rows={3}
+                  value={template.body}
+                  onChange={(e) => updateTemplate(template.id, { body: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className={labelClass}>Rules (first match wins)</label>
+          <button
+            onClick={addRule}
+            disabled={!templates.length}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center disabled:opacity-50"
+          >
+            <PlusIcon className="w-3 h-3 mr-1" /> Add Rule
+          </button>
+        </div>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">Without rules, templates are only used when picked by hand.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-slate-50 border border-slate-100 rounded-lg p-2 text-xs text-slate-600">
+                <span>Stars</span>
+                <select value={rule.minRating ?? ''} onChange={(e) => updateRule(rule.id, { minRating: parseRating(e.target.value) })} className={smallInputClass}>
+                  <option value="">any</option>
+                  {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <span>to</span>
+                <select value={rule.maxRating ?? ''} onChange={(e) => updateRule(rule.id, { maxRating: parseRating(e.target.value) })} className={smallInputClass}>
+                  <option value="">any</option>
+                  {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+                <select
+                  value={rule.hasText === undefined ? '' : String(rule.hasText)}
+                  onChange={(e) => updateRule(rule.id, { hasText: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                  className={smallInputClass}
+                >
+                  <option value="">with or without text</option>
+                  <option value="true">with text</option>
+                  <option value="false">rating only</option>
+                </select>
+                <select
+                  value={rule.language || ''}
+                  onChange={(e) => updateRule(rule.id, { language: (e.target.value || undefined) as Language | undefined })}
+                  className={smallInputClass}
+                >
+                  <option value="">any language</option>
+                  {Object.values(Language).map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={(rule.keywords || []).join(', ')}
+                  onChange={(e) => updateRule(rule.id, { keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })}
+                  placeholder="keywords, comma separated"
+                  className={`${smallInputClass} flex-1 min-w-[140px]`}
+                />
+                <span>→</span>
+                <select value={rule.templateId} onChange={(e) => updateRule(rule.id, { templateId: e.target.value })} className={smallInputClass}>
+                  {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <button onClick={() => moveRuleUp(index)} disabled={index === 0} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Move up">
+                  <ArrowUpIcon className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => setLibrary({ ...library, rules: rules.filter(r => r.id !== rule.id) })}
+                  className="p-1 text-slate-400 hover:text-red-600"
+                  title="Delete rule"
+                >
+                  <TrashIcon className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-slate-600 hover:bg-slate-50 rounded-lg text-sm font-medium"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(library)}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition"
+        >
+          Save Templates
+        </button>
+      </div>
+    </div>
+  );
+};
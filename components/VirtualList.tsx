@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps {
+  itemCount: number;
+  itemKey: (index: number) => string;
+  renderItem: (index: number) => React.ReactNode;
+  estimatedItemHeight?: number;
+  gap?: number; // Space below each item, in pixels
+}
+
+// Extra distance above and below the viewport that stays rendered, so fast scrolling doesn't flash blanks
+const OVERSCAN_PX = 1000;
+
+/**
+ * Renders only the items near the viewport of the page scroll. Items can have any height;
+ * each one is measured once rendered and the estimate is used until then.
+ */
+export const VirtualList: React.FC<VirtualListProps> = ({ itemCount, itemKey, renderItem, estimatedItemHeight = 320, gap = 24 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+  const [viewport, setViewport] = useState({ top: 0, bottom: window.innerHeight });
+
+  // Viewport position relative to the top of the list
+  useEffect(() => {
+    const update = () => {
+      const top = containerRef.current ? -containerRef.current.getBoundingClientRect().top : 0;
+      setViewport({ top, bottom: top + window.innerHeight });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [itemCount]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const getObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        setHeights(prev => {
+          let next = prev;
+          for (const entry of entries) {
+            const element = entry.target as HTMLElement;
+            const key = element.dataset.key!;
+            if (prev[key] !== element.offsetHeight) {
+              if (next === prev) next = { ...prev };
+              next[key] = element.offsetHeight;
+            }
+          }
+          return next;
+        });
+      });
+    }
+    return observerRef.current;
+  };
+
+  const measure = (element: HTMLDivElement | null) => {
+    if (!element) return;
+    const observer = getObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  };
+
+  // Walk the items once to find the rendered range and the space it leaves above and below
+  let offset = 0;
+  let first = -1;
+  let last = -1;
+  let spaceBefore = 0;
+  for (let i = 0; i < itemCount; i++) {
+    const height = heights[itemKey(i)] ?? estimatedItemHeight + gap;
+    if (first === -1 && offset + height >= viewport.top - OVERSCAN_PX) {
+      first = i;
+      spaceBefore = offset;
+    }
+    if (offset <= viewport.bottom + OVERSCAN_PX) last = i;
+    offset += height;
+  }
+  if (first === -1) {
+    // Scrolled past the end, e.g. after the list got shorter
+    first = itemCount;
+    spaceBefore = offset;
+  }
+
+  let renderedHeight = 0;
+  const rendered: React.ReactNode[] = [];
+  for (let i = first; i <= last; i++) {
+    const key = itemKey(i);
+    renderedHeight += heights[key] ?? estimatedItemHeight + gap;
+    rendered.push(
+      <div key={key} data-key={key} ref={measure} style={{ paddingBottom: gap }}>
+        {renderItem(i)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} style={{ paddingTop: spaceBefore, paddingBottom: Math.max(0, offset - spaceBefore - renderedHeight) }}>
+      {rendered}
+    </div>
+  );
+};
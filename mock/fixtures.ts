@@ -0,0 +1,255 @@
+/**
+ * Seed data for the mock Google Business Profile API.
+ * Shapes follow the real API responses (v1 account management / business information, v4 reviews).
+ */
+export interface MockReview {
+  reviewId: string;
+  reviewer: { displayName: string; profilePhotoUrl?: string };
+  starRating: 'ONE' | 'TWO' | 'THREE' | 'FOUR' | 'FIVE';
+  comment?: string;
+  createTime: string;
+  updateTime: string;
+  reviewReply?: { comment: string; updateTime: string };
+}
+
+export interface MockLocation {
+  name: string; // locations/{id}
+  title: string;
+  storeCode: string;
+  storefrontAddress: {
+    addressLines: string[];
+    locality: string;
+    administrativeArea?: string;
+    postalCode: string;
+    regionCode: string;
+  };
+}
+
+export interface MockAccount {
+  name: string; // accounts/{id}
+  accountName: string;
+  type: string;
+  locations: MockLocation[];
+}
+
+const daysAgo = (days: number, hours = 0) =>
+  new Date(Date.now() - (days * 24 + hours) * 60 * 60 * 1000).toISOString();
+
+export const MOCK_ACCOUNTS: MockAccount[] = [
+  {
+    name: 'accounts/1001',
+    accountName: 'Saigon Kitchen Group',
+    type: 'LOCATION_GROUP',
+    locations: [
+      {
+        name: 'locations/2001',
+        title: 'Saigon Kitchen - District 1',
+        storeCode: 'SGK-D1',
+        storefrontAddress: {
+          addressLines: ['12 Nguyen Hue'],
+          locality: 'Ho Chi Minh City',
+          postalCode: '700000',
+          regionCode: 'VN'
+        }
+      },
+      {
+        name: 'locations/2002',
+        title: 'Saigon Kitchen - Thao Dien',
+        storeCode: 'SGK-TD',
+        storefrontAddress: {
+          addressLines: ['45 Xuan Thuy'],
+          locality: 'Thu Duc City',
+          postalCode: '700000',
+          regionCode: 'VN'
+        }
+      },
+      {
+        name: 'locations/2003',
+        title: 'Saigon Kitchen - Paris 11e',
+        storeCode: 'SGK-PAR',
+        storefrontAddress: {
+          addressLines: ['8 Rue Oberkampf'],
+          locality: 'Paris',
+          administrativeArea: 'Île-de-France',
+          postalCode: '75011',
+          regionCode: 'FR'
+        }
+      }
+    ]
+  },
+  {
+    name: 'accounts/1002',
+    accountName: 'Bloom Dental Clinic',
+    type: 'PERSONAL',
+    locations: [
+      {
+        name: 'locations/3001',
+        title: 'Bloom Dental Clinic',
+        storeCode: 'BLOOM-01',
+        storefrontAddress: {
+          addressLines: ['200 Market Street', 'Suite 4'],
+          locality: 'San Francisco',
+          administrativeArea: 'CA',
+          postalCode: '94105',
+          regionCode: 'US'
+        }
+      }
+    ]
+  }
+];
+
+export const MOCK_REVIEWS: Record<string, MockReview[]> = {
+  'locations/2001': [
+    {
+      reviewId: 'r-2001-01',
+      reviewer: { displayName: 'Nguyễn Minh Anh' },
+      starRating: 'FIVE',
+      comment: 'Phở ở đây ngon tuyệt, nước dùng đậm đà. Nhân viên rất thân thiện, chắc chắn sẽ quay lại!',
+      createTime: daysAgo(1, 3),
+      updateTime: daysAgo(1, 3)
+    },
+    {
+      reviewId: 'r-2001-02',
+      reviewer: { displayName: 'James Carter' },
+      starRating: 'TWO',
+      comment: 'Food was good but we waited 45 minutes for our mains and nobody told us why. The table was also sticky.',
+      createTime: daysAgo(2, 5),
+      updateTime: daysAgo(2, 5)
+    },
+    {
+      reviewId: 'r-2001-03',
+      reviewer: { displayName: '김지훈' },
+      starRating: 'FOUR',
+      comment: '분짜가 정말 맛있었어요. 다만 가게가 조금 시끄러웠습니다.',
+      createTime: daysAgo(3),
+      updateTime: daysAgo(3)
+    },
+    {
+      reviewId: 'r-2001-04',
+      reviewer: { displayName: 'Emily Tran' },
+      starRating: 'FIVE',
+      createTime: daysAgo(4, 2),
+      updateTime: daysAgo(4, 2)
+    },
+    {
+      reviewId: 'r-2001-05',
+      reviewer: { displayName: 'Trần Văn Hùng' },
+      starRating: 'ONE',
+      comment: 'Tôi bị tính tiền sai hai lần và quản lý không hề xin lỗi. Rất thất vọng.',
+      createTime: daysAgo(6),
+      updateTime: daysAgo(6)
+    },
+    {
+      reviewId: 'r-2001-06',
+      reviewer: { displayName: 'Sophie Müller' },
+      starRating: 'FIVE',
+      comment: 'Super leckeres Essen und sehr freundlicher Service. Die Frühlingsrollen sind ein Muss!\n\n(Translated by Google)\nSuper tasty food and very friendly service. The spring rolls are a must!',
+      createTime: daysAgo(9),
+      updateTime: daysAgo(9),
+      reviewReply: { comment: 'Vielen Dank, Sophie! Wir freuen uns auf Ihren nächsten Besuch.', updateTime: daysAgo(8) }
+    },
+    {
+      reviewId: 'r-2001-07',
+      reviewer: { displayName: 'Michael Brown' },
+      starRating: 'THREE',
+      comment: 'Decent banh mi, a bit pricey for the portion size.',
+      createTime: daysAgo(14),
+      updateTime: daysAgo(14),
+      reviewReply: { comment: 'Thanks for the honest feedback, Michael. We have passed it on to our kitchen team.', updateTime: daysAgo(12) }
+    },
+    {
+      reviewId: 'r-2001-08',
+      reviewer: { displayName: 'Lê Thị Hoa' },
+      starRating: 'FOUR',
+      comment: 'Không gian đẹp, món ăn ngon. Giá hơi cao một chút.',
+      createTime: daysAgo(21),
+      updateTime: daysAgo(21)
+    }
+  ],
+  'locations/2002': [
+    {
+      reviewId: 'r-2002-01',
+      reviewer: { displayName: 'Carlos García' },
+      starRating: 'FIVE',
+      comment: '¡Increíble! El mejor pho que he probado fuera de Vietnam. El personal fue muy amable.',
+      createTime: daysAgo(0, 6),
+      updateTime: daysAgo(0, 6)
+    },
+    {
+      reviewId: 'r-2002-02',
+      reviewer: { displayName: 'Hannah Lee' },
+      starRating: 'ONE',
+      comment: 'Found a hair in my soup. The waiter just took it away without offering anything. Never again.',
+      createTime: daysAgo(1, 8),
+      updateTime: daysAgo(1, 8)
+    },
+    {
+      reviewId: 'r-2002-03',
+      reviewer: { displayName: 'Phạm Quốc Bảo' },
+      starRating: 'FIVE',
+      createTime: daysAgo(5),
+      updateTime: daysAgo(5)
+    },
+    {
+      reviewId: 'r-2002-04',
+      reviewer: { displayName: 'Yuki Tanaka' },
+      starRating: 'FOUR',
+      comment: 'フォーがとても美味しかったです。少し待ち時間が長かったですが、また来たいです。',
+      createTime: daysAgo(11),
+      updateTime: daysAgo(11)
+    }
+  ],
+  'locations/2003': [
+    {
+      reviewId: 'r-2003-01',
+      reviewer: { displayName: 'Camille Dubois' },
+      starRating: 'FIVE',
+      comment: "Un vrai voyage culinaire ! Le bo bun est délicieux et l'accueil chaleureux.",
+      createTime: daysAgo(2),
+      updateTime: daysAgo(2)
+    },
+    {
+      reviewId: 'r-2003-02',
+      reviewer: { displayName: 'Lucas Martin' },
+      starRating: 'TWO',
+      comment: 'Service très lent et plats tièdes. Dommage, le cadre est sympa.',
+      createTime: daysAgo(4),
+      updateTime: daysAgo(4)
+    },
+    {
+      reviewId: 'r-2003-03',
+      reviewer: { displayName: 'Anna Rossi' },
+      starRating: 'FOUR',
+      comment: 'Cibo buonissimo, prezzi onesti. Torneremo sicuramente!\n\n(Translated by Google)\nVery good food, fair prices. We will definitely come back!',
+      createTime: daysAgo(16),
+      updateTime: daysAgo(16)
+    }
+  ],
+  'locations/3001': [
+    {
+      reviewId: 'r-3001-01',
+      reviewer: { displayName: 'Olivia Johnson' },
+      starRating: 'FIVE',
+      comment: 'Dr. Patel was incredibly gentle and explained every step. Best dental visit I have had.',
+      createTime: daysAgo(1),
+      updateTime: daysAgo(1)
+    },
+    {
+      reviewId: 'r-3001-02',
+      reviewer: { displayName: 'Daniel Kim' },
+      starRating: 'ONE',
+      comment: 'Charged me for a cleaning that my insurance should have covered. Front desk was rude when I asked about it.',
+      createTime: daysAgo(3),
+      updateTime: daysAgo(3)
+    },
+    {
+      reviewId: 'r-3001-03',
+      reviewer: { displayName: 'Priya Shah' },
+      starRating: 'THREE',
+      comment: 'Good care but I waited 30 minutes past my appointment time.',
+      createTime: daysAgo(8),
+      updateTime: daysAgo(8),
+      reviewReply: { comment: 'Thank you Priya, we are sorry about the wait and are adjusting our scheduling.', updateTime: daysAgo(7) }
+    }
+  ]
+};
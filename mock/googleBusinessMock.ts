@@ -0,0 +1,186 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import { MOCK_ACCOUNTS, MOCK_REVIEWS, MockReview } from './fixtures';
+
+/**
+ * Local stand-in for the Google Business Profile endpoints used by googleBusinessService.ts.
+ * Mounted on the Vite dev/preview server under MOCK_PREFIX; state lives in memory and
+ * resets on restart.
+ *
+ *   GET    /accountmanagement/v1/accounts
+ *   GET    /businessinformation/v1/accounts/{a}/locations
+ *   GET    /reviews/v4/accounts/{a}/locations/{l}/reviews
+ *   GET    /reviews/v4/accounts/{a}/locations/{l}/reviews/{r}
+ *   PUT    /reviews/v4/accounts/{a}/locations/{l}/reviews/{r}/reply
+ *   DELETE /reviews/v4/accounts/{a}/locations/{l}/reviews/{r}/reply
+ *   POST   /_simulate  { status: 401 | 403 | 429 | 500, times?: number }
+ */
+export const MOCK_PREFIX = '/mock-gbp';
+
+const STAR_VALUES = ['ZERO', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE'];
+
+const ERROR_STATUS: Record<number, { status: string; message: string; reason?: string }> = {
+  401: { status: 'UNAUTHENTICATED', message: 'Request had invalid authentication credentials.' },
+  403: { status: 'PERMISSION_DENIED', message: 'The caller does not have permission.' },
+  404: { status: 'NOT_FOUND', message: 'Requested entity was not found.' },
+  429: { status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded for quota metric.', reason: 'RATE_LIMIT_EXCEEDED' },
+  500: { status: 'INTERNAL', message: 'Internal error encountered.' },
+  503: { status: 'UNAVAILABLE', message: 'The service is currently unavailable.' }
+};
+
+// Cloned so replies posted during a session don't leak into the fixtures module
+let reviewsByLocation: Record<string, MockReview[]> = JSON.parse(JSON.stringify(MOCK_REVIEWS));
+let simulated: { status: number; remaining: number } | null = null;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number) => {
+  const info = ERROR_STATUS[status] || ERROR_STATUS[500];
+  if (status === 429) res.setHeader('Retry-After', '1');
+  sendJson(res, status, {
+    error: {
+      code: status,
+      message: info.message,
+      status: info.status,
+      details: info.reason ? [{ '@type': 'type.googleapis.com/google.rpc.ErrorInfo', reason: info.reason }] : []
+    }
+  });
+};
+
+const readBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const findReview = (locationId: string, reviewId: string) =>
+  (reviewsByLocation[locationId] || []).find(r => r.reviewId === reviewId);
+
+const toApiReview = (accountId: string, locationId: string, review: MockReview) => ({
+  name: `${accountId}/${locationId}/reviews/${review.reviewId}`,
+  ...review
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname;
+  const method = req.method || 'GET';
+
+  if (path === '/_simulate' && method === 'POST') {
+    const body = await readBody(req);
+    const status = Number(body.status);
+    simulated = status ? { status, remaining: Number(body.times) || 1 } : null;
+    return sendJson(res, 200, { simulated });
+  }
+
+  if (path === '/_reset' && method === 'POST') {
+    reviewsByLocation = JSON.parse(JSON.stringify(MOCK_REVIEWS));
+    simulated = null;
+    return sendJson(res, 200, {});
+  }
+
+  if (!req.headers.authorization?.startsWith('Bearer ')) return sendError(res, 401);
+
+  if (simulated && simulated.remaining > 0) {
+    simulated.remaining--;
+    const status = simulated.status;
+    if (simulated.remaining === 0) simulated = null;
+    return sendError(res, status);
+  }
+
+  if (path === '/accountmanagement/v1/accounts' && method === 'GET') {
+    return sendJson(res, 200, {
+      accounts: MOCK_ACCOUNTS.map(({ locations, ...account }) => account)
+    });
+  }
+
+  let match = path.match(/^\/businessinformation\/v1\/(accounts\/[^/]+)\/locations$/);
+  if (match && method === 'GET') {
+    const account = MOCK_ACCOUNTS.find(a => a.name === match![1]);
+    if (!account) return sendError(res, 404);
+    // Small pages so the client's paging is exercised, like the API's default of 10
+    const pageSize = Math.min(Number(url.searchParams.get('pageSize')) || 10, 5);
+    const offset = Number(url.searchParams.get('pageToken')) || 0;
+    return sendJson(res, 200, {
+      locations: account.locations.slice(offset, offset + pageSize),
+      nextPageToken: offset + pageSize < account.locations.length ? String(offset + pageSize) : undefined
+    });
+  }
+
+  match = path.match(/^\/reviews\/v4\/(accounts\/[^/]+)\/(locations\/[^/]+)\/reviews$/);
+  if (match && method === 'GET') {
+    const [, accountId, locationId] = match;
+    const all = [...(reviewsByLocation[locationId] || [])]
+      .sort((a, b) => b.updateTime.localeCompare(a.updateTime));
+    const pageSize = Math.min(Number(url.searchParams.get('pageSize')) || 50, 50);
+    const offset = Number(url.searchParams.get('pageToken')) || 0;
+    const page = all.slice(offset, offset + pageSize);
+    const total = all.reduce((sum, r) => sum + STAR_VALUES.indexOf(r.starRating), 0);
+
+    return sendJson(res, 200, {
+      reviews: page.map(r => toApiReview(accountId, locationId, r)),
+      averageRating: all.length ? Math.round((total / all.length) * 10) / 10 : 0,
+      totalReviewCount: all.length,
+      nextPageToken: offset + pageSize < all.length ? String(offset + pageSize) : undefined
+    });
+  }
+
+  match = path.match(/^\/reviews\/v4\/(accounts\/[^/]+)\/(locations\/[^/]+)\/reviews\/([^/]+)$/);
+  if (match && method === 'GET') {
+    const [, accountId, locationId, reviewId] = match;
+    const review = findReview(locationId, reviewId);
+    return review ? sendJson(res, 200, toApiReview(accountId, locationId, review)) : sendError(res, 404);
+  }
+
+  match = path.match(/^\/reviews\/v4\/(accounts\/[^/]+)\/(locations\/[^/]+)\/reviews\/([^/]+)\/reply$/);
+  if (match && (method === 'PUT' || method === 'DELETE')) {
+    const [, , locationId, reviewId] = match;
+    const review = findReview(locationId, reviewId);
+    if (!review) return sendError(res, 404);
+
+    if (method === 'DELETE') {
+      delete review.reviewReply;
+      return sendJson(res, 200, {});
+    }
+
+    const body = await readBody(req);
+    if (!body.comment || typeof body.comment !== 'string') {
+      return sendJson(res, 400, { error: { code: 400, message: 'Reply comment is required.', status: 'INVALID_ARGUMENT' } });
+    }
+    review.reviewReply = { comment: body.comment, updateTime: new Date().toISOString() };
+    return sendJson(res, 200, review.reviewReply);
+  }
+
+  return sendError(res, 404);
+};
+
+const middleware: Connect.NextHandleFunction = (req, res) => {
+  // A short delay makes loading states visible, as with the real API
+  setTimeout(() => {
+    handle(req, res).catch(err => {
+      console.error('[mock-gbp]', err);
+      sendError(res, 500);
+    });
+  }, 150);
+};
+
+export const googleBusinessMock = (): Plugin => ({
+  name: 'google-business-mock',
+  configureServer(server) {
+    server.middlewares.use(MOCK_PREFIX, middleware);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(MOCK_PREFIX, middleware);
+  }
+});
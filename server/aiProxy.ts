@@ -0,0 +1,186 @@
+import { appendFile, mkdir } from 'fs/promises';
+import type { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import { ApiError, GoogleGenAI } from '@google/genai';
+import type { Connect, Plugin } from 'vite';
+import type { AiFeature, GenerationSettings } from '../types';
+import { bearerToken, readBody, sendError, sendJson, sendTooLarge } from './http';
+import { identifyUser } from './googleIdentity';
+
+/**
+ * Server-side Gemini proxy. The API key stays on the server; browsers call
+ *
+ *   POST /api/ai/{feature}  { prompt, model, settings }  ->  { text }
+ *
+ * with their Google access token as a Bearer token. Only tokens issued to this app's
+ * OAuth client are accepted. Each Google account is rate limited per minute and per
+ * day, and every request is appended to the usage log.
+ */
+export const AI_PROXY_PREFIX = '/api/ai';
+
+// One route per AI feature so usage can be told apart in the log
+const FEATURES: AiFeature[] = ['reply', 'voice', 'translate', 'analyze', 'refine'];
+
+const MAX_PROMPT_CHARS = 20000;
+// Room for a full-length prompt in any script once JSON-escaped, plus the settings
+const MAX_BODY_BYTES = 128 * 1024;
+
+export interface AiProxyOptions {
+  apiKey?: string;
+  // OAuth client ID of the app; tokens issued to any other client are rejected
+  clientId?: string;
+  requestsPerMinute?: number;
+  requestsPerDay?: number;
+  // JSON lines, one entry per request
+  usageLogFile?: string;
+}
+
+interface AiProxyRequest {
+  prompt?: unknown;
+  model?: unknown;
+  settings?: GenerationSettings;
+}
+
+/**
+ * Sliding-window limiter over the request times of each user in the last day
+ */
+const createRateLimiter = (perMinute: number, perDay: number) => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  // Returns the seconds to wait, or 0 when the request may go ahead
+  return (userId: string): number => {
+    const now = Date.now();
+    // Forget users with no requests in the last day, so the map doesn't grow forever
+    if (now - lastSweep > 60 * 60 * 1000) {
+      lastSweep = now;
+      for (const [id, times] of hits) {
+        if (times[times.length - 1] <= now - 24 * 60 * 60 * 1000) hits.delete(id);
+      }
+    }
+    const recent = (hits.get(userId) || []).filter(t => t > now - 24 * 60 * 60 * 1000);
+    const lastMinute = recent.filter(t => t > now - 60 * 1000);
+
+    if (recent.length >= perDay) {
+      hits.set(userId, recent);
+      return Math.ceil((recent[0] + 24 * 60 * 60 * 1000 - now) / 1000);
+    }
+    if (lastMinute.length >= perMinute) {
+      hits.set(userId, recent);
+      return Math.ceil((lastMinute[0] + 60 * 1000 - now) / 1000);
+    }
+
+    recent.push(now);
+    hits.set(userId, recent);
+    return 0;
+  };
+};
+
+export const createAiProxyMiddleware = (options: AiProxyOptions): Connect.NextHandleFunction => {
+  const {
+    apiKey,
+    clientId,
+    requestsPerMinute = 20,
+    requestsPerDay = 500,
+    usageLogFile = path.resolve('logs', 'ai-usage.jsonl')
+  } = options;
+
+  const client = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  const checkRateLimit = createRateLimiter(requestsPerMinute, requestsPerDay);
+
+  const logUsage = async (entry: Record<string, unknown>) => {
+    try {
+      await mkdir(path.dirname(usageLogFile), { recursive: true });
+      await appendFile(usageLogFile, JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n');
+    } catch (err) {
+      console.error('[ai-proxy] Could not write usage log:', err);
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const feature = (req.url || '').split('?')[0].replace(/^\/+/, '') as AiFeature;
+    if (req.method !== 'POST' || !FEATURES.includes(feature)) {
+      return sendError(res, 404, 'Unknown AI route.');
+    }
+    if (!client) {
+      return sendError(res, 503, 'GEMINI_API_KEY is not configured on the server.', 'AI_NOT_CONFIGURED');
+    }
+    if (!clientId) {
+      return sendError(res, 503, 'GOOGLE_CLIENT_ID is not configured on the server.', 'AI_NOT_CONFIGURED');
+    }
+
+    const accessToken = bearerToken(req);
+    const identity = accessToken ? await identifyUser(accessToken, clientId) : null;
+    if (!identity) return sendError(res, 401, 'Sign in with Google to use AI features.');
+    const { userId } = identity;
+
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) return sendTooLarge(res, MAX_BODY_BYTES);
+    const body: AiProxyRequest | null = await readBody(req, MAX_BODY_BYTES);
+    if (!body) return sendTooLarge(res, MAX_BODY_BYTES);
+
+    const { prompt, model, settings } = body;
+    if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_CHARS) {
+      return sendError(res, 400, `The AI prompt must be between 1 and ${MAX_PROMPT_CHARS} characters. Shorten the knowledge base or brand voice for this location.`, 'AI_INVALID_REQUEST');
+    }
+    if (typeof model !== 'string' || !model.startsWith('gemini-')) {
+      return sendError(res, 400, 'Only Gemini models are available through the proxy.', 'AI_INVALID_REQUEST');
+    }
+
+    // Only requests that would reach Gemini use up the caller's limit
+    const retryAfter = checkRateLimit(userId);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      await logUsage({ userId, feature, status: 429 });
+      return sendError(res, 429, `AI request limit reached. Try again in ${retryAfter} seconds.`, 'AI_RATE_LIMIT');
+    }
+
+    const startedAt = Date.now();
+    try {
+      const response = await client.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          temperature: settings?.temperature,
+          topK: settings?.topK,
+          topP: settings?.topP,
+          maxOutputTokens: settings?.maxOutputTokens,
+        }
+      });
+      await logUsage({
+        userId,
+        feature,
+        model,
+        status: 200,
+        durationMs: Date.now() - startedAt,
+        promptTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount
+      });
+      return sendJson(res, 200, { text: response.text || '' });
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 500;
+      console.error('[ai-proxy] Gemini error:', error);
+      await logUsage({ userId, feature, model, status, durationMs: Date.now() - startedAt });
+      return sendError(res, status === 429 ? 429 : 502, status === 429 ? 'Gemini rate limit reached.' : 'Gemini request failed.');
+    }
+  };
+
+  return (req, res) => {
+    handle(req, res).catch(err => {
+      console.error('[ai-proxy]', err);
+      sendError(res, 500, 'Internal error.');
+    });
+  };
+};
+
+export const aiProxy = (options: AiProxyOptions): Plugin => {
+  const middleware = createAiProxyMiddleware(options);
+  return {
+    name: 'ai-proxy',
+    configureServer(server) {
+      server.middlewares.use(AI_PROXY_PREFIX, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(AI_PROXY_PREFIX, middleware);
+    }
+  };
+};
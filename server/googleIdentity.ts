@@ -0,0 +1,56 @@
+const TOKEN_CACHE_MS = 5 * 60 * 1000;
+
+// Drops expired entries before adding one, so the caches don't grow for as long as the server runs
+const pruneExpired = <T>(cache: Map<string, T>, expiresAt: (entry: T) => number) => {
+  const now = Date.now();
+  for (const [key, entry] of cache) {
+    if (expiresAt(entry) <= now) cache.delete(key);
+  }
+};
+
+export interface GoogleIdentity {
+  userId: string; // The Google account id (`sub`), stable across tokens
+  email: string;
+}
+
+/**
+ * Resolves a Google access token to the account behind it through the tokeninfo endpoint.
+ * Tokens issued to other OAuth clients, or without the openid and email scopes, are rejected.
+ */
+const identities = new Map<string, { identity: GoogleIdentity; expiresAt: number }>();
+
+export const identifyUser = async (accessToken: string, clientId: string): Promise<GoogleIdentity | null> => {
+  const cached = identities.get(accessToken);
+  if (cached && cached.expiresAt > Date.now()) return cached.identity;
+
+  const response = await fetch(`https://oauth2.googleapis.com/tokeninfo?access_token=${encodeURIComponent(accessToken)}`);
+  if (!response.ok) return null;
+
+  const info = await response.json();
+  if (info.aud !== clientId && info.azp !== clientId) return null;
+  if (!info.sub || !info.email || String(info.email_verified) !== 'true') return null;
+
+  const identity = { userId: String(info.sub), email: String(info.email).toLowerCase() };
+  const expiresAt = Math.min(Date.now() + TOKEN_CACHE_MS, Date.now() + Number(info.expires_in || 0) * 1000);
+  pruneExpired(identities, entry => entry.expiresAt);
+  identities.set(accessToken, { identity, expiresAt });
+  return identity;
+};
+
+/**
+ * Whether the token's user manages the Business Profile account, asked of Google itself
+ */
+const accountAccess = new Map<string, number>();
+
+export const canAccessAccount = async (accessToken: string, accountId: string): Promise<boolean> => {
+  const key = `${accessToken} ${accountId}`;
+  if ((accountAccess.get(key) || 0) > Date.now()) return true;
+
+  const response = await fetch(`https://mybusinessaccountmanagement.googleapis.com/v1/${accountId}`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+  if (!response.ok) return false;
+  pruneExpired(accountAccess, expiresAt => expiresAt);
+  accountAccess.set(key, Date.now() + TOKEN_CACHE_MS);
+  return true;
+};
@@ -0,0 +1,51 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Same envelope as Google APIs so the client can reuse its error handling
+export const sendError = (res: ServerResponse, status: number, message: string, reason?: string) =>
+  sendJson(res, status, {
+    error: { code: status, message, details: reason ? [{ reason }] : [] }
+  });
+
+/**
+ * Reads a JSON body of at most `maxBytes`. Resolves to null when the body is larger;
+ * the rest of it is never buffered. Rejects when the client drops the upload.
+ */
+export const readBody = (req: IncomingMessage, maxBytes: number): Promise<any | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.resume(); // Discard the rest
+        return resolve(null);
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('error', reject);
+    req.on('aborted', () => reject(new Error('Client aborted the request.')));
+    req.on('end', () => {
+      if (size > maxBytes) return;
+      try {
+        const data = Buffer.concat(chunks).toString('utf8');
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+export const sendTooLarge = (res: ServerResponse, maxBytes: number) => {
+  res.setHeader('Connection', 'close');
+  return sendError(res, 413, `Request body is larger than ${maxBytes} bytes.`);
+};
+
+export const bearerToken = (req: IncomingMessage) => req.headers.authorization?.replace(/^Bearer\s+/i, '');
@@ -0,0 +1,179 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWorkflowStoreMiddleware } from './workflowStore';
+
+const CLIENT_ID = 'client-id';
+const ACCOUNT = 'accounts/1';
+const FIVE_STARS = `${ACCOUNT}/locations/1/reviews/five`;
+const ONE_STAR = `${ACCOUNT}/locations/1/reviews/one`;
+
+// Access tokens stand for these users; each token only manages accounts/1
+const USERS: Record<string, string> = {
+  admin: 'admin@example.com',
+  approver: 'approver@example.com',
+  approver2: 'approver2@example.com',
+  drafter: 'drafter@example.com'
+};
+
+const TEAM = [
+  { id: 'm-admin', name: 'Admin', email: USERS.admin, role: 'admin' },
+  { id: 'm-approver', name: 'Approver', email: USERS.approver, role: 'approver' },
+  { id: 'm-approver2', name: 'Second approver', email: USERS.approver2, role: 'approver' },
+  { id: 'm-drafter', name: 'Drafter', email: USERS.drafter, role: 'drafter' }
+];
+
+const realFetch = globalThis.fetch;
+
+// Answers Google's endpoints; requests to the test server go through
+const fakeFetch = async (input: string | URL | Request, init?: RequestInit) => {
+  const url = String(input);
+  if (url.startsWith('http://127.0.0.1')) return realFetch(input, init);
+
+  const token = new URL(url).searchParams.get('access_token') ||
+    String((init?.headers as Record<string, string>)?.Authorization || '').replace('Bearer ', '');
+  if (!USERS[token]) return new Response('{}', { status: 401 });
+
+  if (url.startsWith('https://oauth2.googleapis.com/tokeninfo')) {
+    return Response.json({ aud: CLIENT_ID, sub: token, email: USERS[token], email_verified: 'true', expires_in: 3600 });
+  }
+  if (url === `https://mybusinessaccountmanagement.googleapis.com/v1/${ACCOUNT}`) return Response.json({ name: ACCOUNT });
+  if (url === `https://mybusiness.googleapis.com/v4/${FIVE_STARS}`) return Response.json({ starRating: 'FIVE' });
+  if (url === `https://mybusiness.googleapis.com/v4/${ONE_STAR}`) return Response.json({ starRating: 'ONE' });
+  return new Response('{}', { status: 404 });
+};
+
+let server: Server;
+let baseUrl: string;
+let dataDir: string;
+
+const request = async (token: string, method: string, route: string, body?: unknown, account = ACCOUNT) => {
+  const response = await fetch(`${baseUrl}${route}?account=${encodeURIComponent(account)}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const putTeam = (token: string, team: unknown) => request(token, 'PUT', '/team', { team });
+
+const putReview = (token: string, reviewId: string, state: unknown, baseUpdatedAt?: string) =>
+  request(token, 'PUT', '/reviews', { reviewId, state, baseUpdatedAt });
+
+const approval = (memberId: string) => ({ memberId, at: '2024-05-12T12:00:00Z' });
+
+const submit = (reviewId: string) =>
+  putReview('drafter', reviewId, { status: 'in_review', replyContent: 'Thank you!', approvals: [], comments: [] });
+
+beforeAll(async () => {
+  vi.stubGlobal('fetch', fakeFetch);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+// A fresh data file and server per test
+beforeEach(async () => {
+  dataDir = await mkdtemp(path.join(tmpdir(), 'workflow-'));
+  const middleware = createWorkflowStoreMiddleware({ clientId: CLIENT_ID, dataFile: path.join(dataDir, 'workflow.json') });
+  server = createServer((req, res) => middleware(req, res, () => {}));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  await putTeam('admin', TEAM);
+
+  return async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(dataDir, { recursive: true, force: true });
+  };
+});
+
+describe('workflow store', () => {
+  it('rejects unknown tokens and accounts the user does not manage', async () => {
+    expect((await request('stranger', 'GET', '')).status).toBe(401);
+    expect((await request('admin', 'GET', '', undefined, 'accounts/2')).status).toBe(403);
+  });
+
+  it('only lets admins change the team', async () => {
+    const result = await putTeam('approver', TEAM.map(m => ({ ...m, role: 'admin' })));
+    expect(result.status).toBe(403);
+    expect(result.body.error.message).toBe('Only admins can change the team.');
+
+    expect((await putTeam('admin', TEAM.slice(0, 2))).status).toBe(200);
+    expect((await request('drafter', 'GET', '')).body.error.details[0].reason).toBe('WORKFLOW_NOT_A_MEMBER');
+  });
+
+  it('does not let drafters approve or decide', async () => {
+    const result = await putReview('drafter', FIVE_STARS, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-drafter')], comments: []
+    });
+    expect(result.status).toBe(403);
+    expect(result.body.error.message).toBe('Only approvers can approve replies.');
+  });
+
+  it('only accepts approvals in the caller\'s own name, once each', async () => {
+    const submitted = await putReview('drafter', FIVE_STARS, { status: 'in_review', replyContent: 'Thank you!', approvals: [], comments: [] });
+
+    const forSomeoneElse = await putReview('approver', FIVE_STARS, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-approver2')], comments: []
+    }, submitted.body.state.updatedAt);
+    expect(forSomeoneElse.body.error.message).toBe('Approvals can only be added in your own name.');
+
+    const twice = await putReview('approver', FIVE_STARS, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-approver'), approval('m-approver')], comments: []
+    }, submitted.body.state.updatedAt);
+    expect(twice.body.error.message).toBe('Each member can approve a draft only once.');
+  });
+
+  it('approves a positive review with one approval', async () => {
+    const submitted = await submit(FIVE_STARS);
+    const result = await putReview('approver', FIVE_STARS, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-approver')], comments: []
+    }, submitted.body.state.updatedAt);
+    expect(result.status).toBe(200);
+    expect(result.body.state).toMatchObject({ status: 'approved', rating: 5, negative: false });
+  });
+
+  it('needs a second approver for a one-star review, whatever the client says', async () => {
+    const submitted = await submit(ONE_STAR);
+    const single = await putReview('approver', ONE_STAR, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-approver')], comments: [], negative: false
+    }, submitted.body.state.updatedAt);
+    expect(single.status).toBe(403);
+    expect(single.body.error.message).toBe('This reply needs a second approver before it is approved.');
+
+    const first = await putReview('approver', ONE_STAR, {
+      status: 'in_review', replyContent: 'Thank you!', approvals: [approval('m-approver')], comments: []
+    }, submitted.body.state.updatedAt);
+    const second = await putReview('approver2', ONE_STAR, {
+      status: 'approved', replyContent: 'Thank you!', approvals: [approval('m-approver'), approval('m-approver2')], comments: []
+    }, first.body.state.updatedAt);
+    expect(second.status).toBe(200);
+    expect(second.body.state).toMatchObject({ status: 'approved', rating: 1 });
+  });
+
+  it('keeps a review negative once it was flagged', async () => {
+    const flagged = await putReview('drafter', FIVE_STARS, {
+      status: 'in_review', replyContent: 'Sorry!', approvals: [], comments: [], negative: true
+    });
+    const result = await putReview('approver', FIVE_STARS, {
+      status: 'approved', replyContent: 'Sorry!', approvals: [approval('m-approver')], comments: [], negative: false
+    }, flagged.body.state.updatedAt);
+    expect(result.status).toBe(403);
+  });
+
+  it('refuses changes based on an outdated copy', async () => {
+    const first = await putReview('drafter', FIVE_STARS, { status: 'drafted', replyContent: 'Hi', approvals: [], comments: [] });
+    expect(first.status).toBe(200);
+
+    const stale = await putReview('drafter', FIVE_STARS, { status: 'in_review', replyContent: 'Hello', approvals: [], comments: [] });
+    expect(stale.status).toBe(409);
+    expect(stale.body.error.details[0].reason).toBe('WORKFLOW_CONFLICT');
+  });
+});
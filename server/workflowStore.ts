@@ -0,0 +1,242 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import type { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import type { Connect, Plugin } from 'vite';
+import type { ReviewStatus, SharedReviewWorkflow, TeamMember, TeamRole } from '../types';
+import { bearerToken, readBody, sendError, sendJson, sendTooLarge } from './http';
+import { GoogleIdentity, canAccessAccount, identifyUser } from './googleIdentity';
+
+/**
+ * Shared approval workflow, so approvers on other machines see what was submitted:
+ *
+ *   GET /api/workflow?account={accountId}                                   ->  { email, team, reviews }
+ *   PUT /api/workflow/team?account={accountId}     { team }                  ->  { team }
+ *   PUT /api/workflow/reviews?account={accountId}  { reviewId, state, baseUpdatedAt }  ->  { state }
+ *
+ * Callers are identified by the verified email of their Google access token, must manage the
+ * Business Profile account, and act as the team member with that email. Role checks, the
+ * one-approval-per-member rule and the second approver for negative reviews are enforced here,
+ * not only in the browser.
+ */
+export const WORKFLOW_PREFIX = '/api/workflow';
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+export interface WorkflowStoreOptions {
+  // OAuth client ID of the app; tokens issued to any other client are rejected
+  clientId?: string;
+  // JSON file holding every account's team and review states
+  dataFile?: string;
+}
+
+interface AccountWorkflow {
+  team: TeamMember[];
+  reviews: Record<string, SharedReviewWorkflow>;
+}
+
+const ROLES: TeamRole[] = ['drafter', 'approver', 'admin'];
+const SHARED_STATUSES: ReviewStatus[] = ['drafted', 'in_review', 'needs_changes', 'approved', 'rejected'];
+const DECISIONS: ReviewStatus[] = ['approved', 'needs_changes', 'rejected'];
+const STAR_RATINGS = ['STAR_RATING_UNSPECIFIED', 'ONE', 'TWO', 'THREE', 'FOUR', 'FIVE'];
+
+const canApprove = (member: TeamMember) => member.role === 'approver' || member.role === 'admin';
+
+const memberFor = (team: TeamMember[], identity: GoogleIdentity) =>
+  team.find(m => m.email.toLowerCase() === identity.email);
+
+/**
+ * The review's star rating as Google has it, so a client can't make a negative review look positive
+ */
+const fetchRating = async (accessToken: string, reviewId: string): Promise<number | null> => {
+  const response = await fetch(`https://mybusiness.googleapis.com/v4/${reviewId}`, {
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+  if (!response.ok) return null;
+  const rating = STAR_RATINGS.indexOf((await response.json()).starRating);
+  return rating > 0 ? rating : null;
+};
+
+// Same rule as requiredApprovals in services/approvalWorkflow.ts
+const requiredApprovals = (rating: number, negative: boolean) => rating <= 2 || negative ? 2 : 1;
+
+/**
+ * Why the team can't be saved as given, or null when it can
+ */
+const checkTeam = (team: unknown, current: TeamMember[], identity: GoogleIdentity): string | null => {
+  if (!Array.isArray(team)) return 'Team must be a list of members.';
+  const valid = team.every(m =>
+    m && typeof m.id === 'string' && typeof m.name === 'string' && m.name.trim() &&
+    typeof m.email === 'string' && m.email.includes('@') && ROLES.includes(m.role));
+  if (!valid) return 'Every member needs a name, an email and a role.';
+  const emails = team.map(m => m.email.toLowerCase());
+  if (new Set(emails).size !== emails.length) return 'Each email can only be on the team once.';
+
+  if (current.length && memberFor(current, identity)?.role !== 'admin') return 'Only admins can change the team.';
+  if (team.length && memberFor(team, identity)?.role !== 'admin') return 'Keep yourself on the team as an admin.';
+  return null;
+};
+
+/**
+ * Why the member can't move the review from `previous` to `next`, or null when they can
+ */
+const checkReviewChange = (
+  previous: SharedReviewWorkflow | undefined,
+  next: any,
+  member: TeamMember,
+  required: number
+): string | null => {
+  if (!next || !SHARED_STATUSES.includes(next.status)) return 'Unknown review status.';
+  if (next.replyContent !== undefined && typeof next.replyContent !== 'string') return 'Reply must be text.';
+  if (!Array.isArray(next.approvals) || !Array.isArray(next.comments)) return 'Approvals and comments must be lists.';
+
+  const before: Omit<SharedReviewWorkflow, 'updatedAt'> = previous || { status: 'drafted', approvals: [], comments: [] };
+
+  // Comments are only ever added, each by the member who wrote it
+  const kept = next.comments.slice(0, before.comments.length);
+  if (JSON.stringify(kept) !== JSON.stringify(before.comments)) return 'Comments cannot be changed or removed.';
+  if (next.comments.slice(before.comments.length).some((c: any) => c?.memberId !== member.id || typeof c.text !== 'string')) {
+    return 'Comments can only be added in your own name.';
+  }
+
+  const approverIds: string[] = next.approvals.map((a: any) => a?.memberId);
+  if (new Set(approverIds).size !== approverIds.length) return 'Each member can approve a draft only once.';
+  const previousIds = new Set(before.approvals.map(a => a.memberId));
+  const added = approverIds.filter(id => !previousIds.has(id));
+  if (added.some(id => id !== member.id)) return 'Approvals can only be added in your own name.';
+  if (added.length && !canApprove(member)) return 'Only approvers can approve replies.';
+  const removed = [...previousIds].filter(id => !approverIds.includes(id));
+  if (removed.length && next.replyContent === before.replyContent && !canApprove(member)) {
+    return 'Only approvers can withdraw approvals of an unchanged reply.';
+  }
+  // A changed draft needs approving again; only the approval given with the change itself can stay
+  if (previous && next.replyContent !== previous.replyContent && added.length !== approverIds.length) {
+    return 'Approvals of the previous draft cannot be kept for a changed reply.';
+  }
+
+  if (DECISIONS.includes(next.status) && next.status !== before.status && !canApprove(member)) {
+    return 'Only approvers can approve, reject or request changes.';
+  }
+  if (next.status === 'approved' && approverIds.length < required) {
+    return required > 1 ? 'This reply needs a second approver before it is approved.' : 'An approved reply needs an approval.';
+  }
+  return null;
+};
+
+export const createWorkflowStoreMiddleware = (options: WorkflowStoreOptions): Connect.NextHandleFunction => {
+  const { clientId, dataFile = path.resolve('data', 'workflow.json') } = options;
+
+  let data: Record<string, AccountWorkflow> | null = null;
+  let pendingWrite = Promise.resolve();
+
+  const load = async () => {
+    if (!data) {
+      try {
+        data = JSON.parse(await readFile(dataFile, 'utf8'));
+      } catch {
+        data = {};
+      }
+    }
+    return data!;
+  };
+
+  // Writes are chained so they land in order
+  const save = () => {
+    pendingWrite = pendingWrite
+      .then(async () => {
+        await mkdir(path.dirname(dataFile), { recursive: true });
+        await writeFile(dataFile, JSON.stringify(data));
+      })
+      .catch(err => console.error('[workflow] Could not write data file:', err));
+    return pendingWrite;
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    if (!clientId) {
+      return sendError(res, 503, 'GOOGLE_CLIENT_ID is not configured on the server.', 'WORKFLOW_NOT_CONFIGURED');
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = url.pathname.replace(/^\/+|\/+$/g, '');
+    const accountId = url.searchParams.get('account') || '';
+    if (!/^accounts\/[^/]+$/.test(accountId)) return sendError(res, 400, 'Missing or invalid account.', 'WORKFLOW_INVALID');
+
+    const accessToken = bearerToken(req);
+    const identity = accessToken ? await identifyUser(accessToken, clientId) : null;
+    if (!identity) return sendError(res, 401, 'Sign in with Google to use the team workflow.');
+    if (!await canAccessAccount(accessToken!, accountId)) {
+      return sendError(res, 403, 'Your Google account does not manage this business.', 'WORKFLOW_FORBIDDEN');
+    }
+
+    const store = await load();
+    const account = store[accountId] || { team: [], reviews: {} };
+    const member = memberFor(account.team, identity);
+
+    if (req.method === 'GET' && route === '') {
+      if (account.team.length && !member) {
+        return sendError(res, 403, `${identity.email} is not on this business's team. Ask an admin to add you.`, 'WORKFLOW_NOT_A_MEMBER');
+      }
+      return sendJson(res, 200, { email: identity.email, ...account });
+    }
+
+    if (req.method !== 'PUT' || (route !== 'team' && route !== 'reviews')) {
+      return sendError(res, 404, 'Unknown workflow route.');
+    }
+
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) return sendTooLarge(res, MAX_BODY_BYTES);
+    const body = await readBody(req, MAX_BODY_BYTES);
+    if (!body) return sendTooLarge(res, MAX_BODY_BYTES);
+
+    if (route === 'team') {
+      const problem = checkTeam(body.team, account.team, identity);
+      if (problem) return sendError(res, 403, problem, 'WORKFLOW_FORBIDDEN');
+      const team: TeamMember[] = body.team.map((m: TeamMember) => ({
+        id: m.id, name: m.name.trim(), email: m.email.trim().toLowerCase(), role: m.role
+      }));
+      store[accountId] = { ...account, team };
+      await save();
+      return sendJson(res, 200, { team });
+    }
+
+    if (!member) return sendError(res, 403, `${identity.email} is not on this business's team.`, 'WORKFLOW_NOT_A_MEMBER');
+    const reviewId = body.reviewId;
+    if (typeof reviewId !== 'string' || !reviewId.startsWith(`${accountId}/`)) return sendError(res, 400, 'Unknown review.', 'WORKFLOW_INVALID');
+
+    const previous = account.reviews[reviewId];
+    if ((previous?.updatedAt || undefined) !== (body.baseUpdatedAt || undefined)) {
+      return sendError(res, 409, 'Someone on the team changed this review meanwhile. Their version is shown now.', 'WORKFLOW_CONFLICT');
+    }
+    const rating = previous?.rating || await fetchRating(accessToken!, reviewId);
+    if (!rating) return sendError(res, 404, 'Google could not find this review.', 'WORKFLOW_INVALID');
+    const negative = Boolean(previous?.negative || body.state?.negative);
+    const problem = checkReviewChange(previous, body.state, member, requiredApprovals(rating, negative));
+    if (problem) return sendError(res, 403, problem, 'WORKFLOW_FORBIDDEN');
+
+    const { status, replyContent, approvals, comments } = body.state;
+    const state: SharedReviewWorkflow = {
+      status, replyContent, approvals, comments, rating, negative, updatedAt: new Date().toISOString()
+    };
+    store[accountId] = { ...account, reviews: { ...account.reviews, [reviewId]: state } };
+    await save();
+    return sendJson(res, 200, { state });
+  };
+
+  return (req, res) => {
+    handle(req, res).catch(err => {
+      console.error('[workflow]', err);
+      sendError(res, 500, 'Internal error.');
+    });
+  };
+};
+
+export const workflowStore = (options: WorkflowStoreOptions): Plugin => {
+  const middleware = createWorkflowStoreMiddleware(options);
+  return {
+    name: 'workflow-store',
+    configureServer(server) {
+      server.middlewares.use(WORKFLOW_PREFIX, middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(WORKFLOW_PREFIX, middleware);
+    }
+  };
+};
@@ -0,0 +1,122 @@
+import { BusinessProfile, ReviewAnalysis, ReviewData, ReviewTopic, Sentiment, TopicSentiment, Urgency } from '../types';
+import { GoogleApiError } from './googleApiErrors';
+import { businessNameFor, hasReviewText } from './googleBusinessService';
+import { getLlmProvider, resolveLlmConfig } from './llmProviders';
+
+export const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+export const REVIEW_TOPICS: ReviewTopic[] = ['food', 'service', 'price', 'cleanliness', 'wait_time', 'staff', 'ambience', 'quality', 'booking', 'other'];
+export const URGENCIES: Urgency[] = ['low', 'medium', 'high'];
+
+export const TOPIC_LABELS: Record<ReviewTopic, string> = {
+  food: 'Food',
+  service: 'Service',
+  price: 'Price',
+  cleanliness: 'Cleanliness',
+  wait_time: 'Wait time',
+  staff: 'Staff',
+  ambience: 'Ambience',
+  quality: 'Quality',
+  booking: 'Booking',
+  other: 'Other'
+};
+
+// A malformed answer is usually fixed by asking once more
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+const oneOf = <T extends string>(values: T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as string[]).includes(value);
+
+/**
+ * Checks the model output against the expected shape. Returns null if it doesn't fit.
+ */
+export const parseReviewAnalysis = (raw: string): Pick<ReviewAnalysis, 'sentiment' | 'topics' | 'urgency' | 'staffNames'> | null => {
+  // Models like to wrap JSON in a markdown code fence
+  const json = raw.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '').trim();
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  if (!data || !oneOf(SENTIMENTS, data.sentiment) || !oneOf(URGENCIES, data.urgency)) return null;
+  if (!Array.isArray(data.topics) || !data.topics.every((t: any) => oneOf(REVIEW_TOPICS, t?.topic) && oneOf(SENTIMENTS, t?.sentiment))) return null;
+  if (data.staffNames !== undefined && (!Array.isArray(data.staffNames) || !data.staffNames.every((n: unknown) => typeof n === 'string'))) return null;
+
+  const topics: TopicSentiment[] = data.topics.map((t: any) => ({ topic: t.topic, sentiment: t.sentiment }));
+  return {
+    sentiment: data.sentiment,
+    topics: topics.filter((t, i) => topics.findIndex(other => other.topic === t.topic) === i),
+    urgency: data.urgency,
+    staffNames: (data.staffNames || []).map((n: string) => n.trim()).filter(Boolean)
+  };
+};
+
+/**
+ * Whether the stored analysis still describes the review text
+ */
+export const isAnalysisCurrent = (analysis: ReviewAnalysis | undefined, content: string) =>
+  !!analysis && analysis.sourceText === content;
+
+/**
+ * Sentiment, topics, urgency and staff mentions for a review.
+ * Rating-only reviews are judged from the stars without calling the model.
+ */
+export const analyzeReview = async (businessProfile: BusinessProfile, review: ReviewData, locationId?: string): Promise<ReviewAnalysis> => {
+  const analyzedAt = new Date().toISOString();
+
+  if (!hasReviewText(review.content)) {
+    return {
+      sentiment: review.rating >= 4 ? 'positive' : review.rating === 3 ? 'neutral' : 'negative',
+      topics: [],
+      urgency: review.rating <= 2 ? 'medium' : 'low',
+      staffNames: [],
+      sourceText: review.content,
+      analyzedAt
+    };
+  }
+
+  const prompt = `
+    Analyze this customer review of ${businessNameFor(businessProfile, locationId)} (${businessProfile.type || 'General Business'}).
+
+    - Rating: ${review.rating} / 5 stars
+    - Content: "${review.content}"
+
+    Respond with JSON only, no markdown, in exactly this shape:
+    {
+      "sentiment": one of ${JSON.stringify(SENTIMENTS)},
+      "topics": [{ "topic": one of ${JSON.stringify(REVIEW_TOPICS)}, "sentiment": one of ${JSON.stringify(SENTIMENTS)} }],
+      "urgency": one of ${JSON.stringify(URGENCIES)},
+      "staffNames": [names of staff members the reviewer mentions]
+    }
+
+    Only list topics the review actually talks about. Urgency is "high" for health or safety issues,
+    billing disputes, discrimination or threats of escalation, "medium" for other complaints, otherwise "low".
+  `;
+
+  const llmConfig = resolveLlmConfig(businessProfile.llm);
+  const provider = getLlmProvider(llmConfig.provider);
+
+  for (let attempt = 1; ; attempt++) {
+    let raw: string;
+    try {
+      raw = await provider.generate(prompt, { ...llmConfig, settings: { ...llmConfig.settings, temperature: 0 } }, {
+        feature: 'analyze',
+        accessToken: businessProfile.accessToken
+      });
+    } catch (error) {
+      console.error("Error analyzing review:", error);
+      if (error instanceof GoogleApiError) throw error;
+      throw new Error("Failed to analyze review. Please check your connection or API limit.");
+    }
+
+    const parsed = parseReviewAnalysis(raw);
+    if (parsed) return { ...parsed, sourceText: review.content, analyzedAt };
+
+    console.error("Invalid analysis from model:", raw);
+    if (attempt >= MAX_ANALYSIS_ATTEMPTS) {
+      throw new Error("The AI returned an analysis in an unexpected format. Please try again.");
+    }
+  }
+};
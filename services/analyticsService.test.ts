@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { GoogleReview } from '../types';
+import { filterReviews, medianReplyHours, ratingDistribution, replyRate, weeklyStats } from './analyticsService';
+
+const review = (createTime: string, overrides: Partial<GoogleReview> = {}): GoogleReview => ({
+  id: createTime,
+  reviewId: createTime,
+  locationId: 'accounts/1/locations/1',
+  reviewerName: 'Guest',
+  rating: 5,
+  content: '',
+  date: '',
+  createTime,
+  updateTime: createTime,
+  status: 'pending',
+  ...overrides
+});
+
+describe('weeklyStats', () => {
+  it('buckets reviews into UTC weeks starting on Monday', () => {
+    const stats = weeklyStats([
+      review('2024-05-06T00:00:00Z', { rating: 4 }), // Monday
+      review('2024-05-12T23:59:59Z', { rating: 2 }), // Sunday of the same week
+      review('2024-05-13T00:00:00Z') // Next Monday
+    ]);
+    expect(stats).toEqual([
+      { weekStart: '2024-05-06', count: 2, averageRating: 3 },
+      { weekStart: '2024-05-13', count: 1, averageRating: 5 }
+    ]);
+  });
+
+  it('includes the empty weeks in between', () => {
+    const stats = weeklyStats([review('2024-05-01T10:00:00Z'), review('2024-05-20T10:00:00Z')]);
+    expect(stats.map(s => s.weekStart)).toEqual(['2024-04-29', '2024-05-06', '2024-05-13', '2024-05-20']);
+    expect(stats[1]).toEqual({ weekStart: '2024-05-06', count: 0, averageRating: undefined });
+  });
+});
+
+describe('filterReviews', () => {
+  it('includes the whole of the last day', () => {
+    const reviews = [review('2024-05-01T00:00:00Z'), review('2024-05-31T23:00:00Z'), review('2024-06-01T00:00:00Z')];
+    expect(filterReviews(reviews, { from: '2024-05-01', to: '2024-05-31' })).toHaveLength(2);
+  });
+});
+
+describe('reply statistics', () => {
+  it('counts replied reviews and the median time to reply', () => {
+    const reviews = [
+      review('2024-05-01T00:00:00Z', { status: 'replied', replyUpdateTime: '2024-05-01T02:00:00Z' }),
+      review('2024-05-02T00:00:00Z', { status: 'replied', replyUpdateTime: '2024-05-02T06:00:00Z' }),
+      review('2024-05-03T00:00:00Z')
+    ];
+    expect(replyRate(reviews)).toBeCloseTo(2 / 3);
+    expect(medianReplyHours(reviews)).toBe(4);
+    expect(ratingDistribution(reviews)).toEqual([0, 0, 0, 0, 3]);
+  });
+});
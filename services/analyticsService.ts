@@ -0,0 +1,119 @@
+import { DraftVariantStyle, GoogleReview } from '../types';
+
+/**
+ * Aggregations for the analytics screen. Everything is computed from the review's
+ * createTime and the reply's updateTime (both ISO timestamps from the API), never
+ * from the localized `date` string.
+ */
+export interface AnalyticsFilter {
+  from?: string; // ISO date (inclusive), compared with createTime
+  to?: string; // ISO date (inclusive)
+  locationId?: string;
+}
+
+export interface WeeklyStats {
+  weekStart: string; // ISO date of the Monday starting the week (UTC)
+  count: number;
+  averageRating?: number; // Undefined for weeks without reviews
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const filterReviews = (reviews: GoogleReview[], { from, to, locationId }: AnalyticsFilter): GoogleReview[] => {
+  const fromTime = from ? Date.parse(from) : -Infinity;
+  // `to` is a calendar date, so include the whole day
+  const toTime = to ? Date.parse(to) + DAY_MS : Infinity;
+  return reviews.filter(r => {
+    const created = Date.parse(r.createTime);
+    return created >= fromTime && created < toTime && (!locationId || r.locationId === locationId);
+  });
+};
+
+export const averageRating = (reviews: GoogleReview[]): number | undefined =>
+  reviews.length ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length : undefined;
+
+/**
+ * Review counts per star rating, index 0 being 1 star
+ */
+export const ratingDistribution = (reviews: GoogleReview[]): number[] => {
+  const counts = [0, 0, 0, 0, 0];
+  for (const review of reviews) {
+    if (review.rating >= 1 && review.rating <= 5) counts[review.rating - 1]++;
+  }
+  return counts;
+};
+
+const startOfWeek = (time: number) => {
+  const date = new Date(time);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+};
+
+/**
+ * Volume and average rating for every week between the first and last review, including empty weeks
+ */
+export const weeklyStats = (reviews: GoogleReview[]): WeeklyStats[] => {
+  if (!reviews.length) return [];
+
+  const buckets = new Map<number, GoogleReview[]>();
+  for (const review of reviews) {
+    const week = startOfWeek(Date.parse(review.createTime));
+    buckets.set(week, [...(buckets.get(week) || []), review]);
+  }
+
+  const weeks = [...buckets.keys()];
+  const stats: WeeklyStats[] = [];
+  for (let week = Math.min(...weeks); week <= Math.max(...weeks); week += 7 * DAY_MS) {
+    const inWeek = buckets.get(week) || [];
+    stats.push({
+      weekStart: new Date(week).toISOString().slice(0, 10),
+      count: inWeek.length,
+      averageRating: averageRating(inWeek)
+    });
+  }
+  return stats;
+};
+
+/**
+ * Share of reviews that have a posted reply, between 0 and 1
+ */
+export const replyRate = (reviews: GoogleReview[]): number | undefined =>
+  reviews.length ? reviews.filter(r => r.status === 'replied').length / reviews.length : undefined;
+
+/**
+ * Median hours between a review and its reply. Google only reports when the reply was
+ * last updated, so edited replies count from their latest edit.
+ */
+export const medianReplyHours = (reviews: GoogleReview[]): number | undefined => {
+  const hours = reviews
+    .filter(r => r.status === 'replied' && r.replyUpdateTime)
+    .map(r => (Date.parse(r.replyUpdateTime!) - Date.parse(r.createTime)) / (60 * 60 * 1000))
+    .filter(h => h >= 0)
+    .sort((a, b) => a - b);
+
+  if (!hours.length) return undefined;
+  const middle = Math.floor(hours.length / 2);
+  return hours.length % 2 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2;
+};
+
+export const oldestUnanswered = (reviews: GoogleReview[], limit = 5): GoogleReview[] =>
+  reviews
+    .filter(r => r.status !== 'replied')
+    .sort((a, b) => a.createTime.localeCompare(b.createTime))
+    .slice(0, limit);
+
+export const daysSince = (isoTime: string, now = Date.now()) => Math.floor((now - Date.parse(isoTime)) / DAY_MS);
+
+/**
+ * How often each style was picked from the draft variants. A merged draft counts once for every style it used.
+ */
+export const variantStyleCounts = (reviews: GoogleReview[]): Partial<Record<DraftVariantStyle, number>> => {
+  const counts: Partial<Record<DraftVariantStyle, number>> = {};
+  for (const review of reviews) {
+    for (const revision of review.draftHistory || []) {
+      if (revision.source !== 'variant') continue;
+      for (const style of revision.variantStyles || []) counts[style] = (counts[style] || 0) + 1;
+    }
+  }
+  return counts;
+};
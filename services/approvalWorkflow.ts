@@ -0,0 +1,91 @@
+import { BusinessProfile, GoogleReview, ReviewStatus, TeamMember, TeamRole } from '../types';
+import { isAnalysisCurrent } from './analysisService';
+
+export const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending',
+  drafted: 'Drafted',
+  in_review: 'In review',
+  needs_changes: 'Needs changes',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  replied: 'Replied'
+};
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  drafter: 'Drafter',
+  approver: 'Approver',
+  admin: 'Admin'
+};
+
+// Who is acting while no team is set up: the workflow is off and the app works as before
+export const OWNER: TeamMember = { id: 'owner', name: 'Owner', email: '', role: 'admin' };
+
+const ACTIVE_MEMBER_KEY = 'activeTeamMember';
+
+export const isWorkflowEnabled = (businessProfile: BusinessProfile) => Boolean(businessProfile.team?.length);
+
+/**
+ * The team member whose Google account is signed in, or undefined for someone who isn't on the team.
+ * Demo mode has no Google account, so there the member picked in the header acts, the first by default.
+ */
+export const getActiveMember = (businessProfile: BusinessProfile, signedInEmail?: string): TeamMember | undefined => {
+  const team = businessProfile.team || [];
+  if (!team.length) return OWNER;
+  if (businessProfile.isDemo) return team.find(m => m.id === localStorage.getItem(ACTIVE_MEMBER_KEY)) || team[0];
+  const email = signedInEmail?.toLowerCase();
+  return email ? team.find(m => (m.email || '').toLowerCase() === email) : undefined;
+};
+
+// Demo mode only
+export const setActiveMember = (memberId: string) => {
+  localStorage.setItem(ACTIVE_MEMBER_KEY, memberId);
+};
+
+// Only approvers and admins can approve drafts and post to Google
+export const canApprove = (member: TeamMember) => member.role === 'approver' || member.role === 'admin';
+
+export const isNegativeReview = (review: GoogleReview) =>
+  review.rating <= 2 ||
+  (isAnalysisCurrent(review.analysis, review.content) && review.analysis!.sentiment === 'negative');
+
+/**
+ * Negative reviews need a second approver before the reply can be posted
+ */
+export const requiredApprovals = (review: GoogleReview) => isNegativeReview(review) ? 2 : 1;
+
+export const hasApproved = (review: GoogleReview, member: TeamMember) =>
+  Boolean(review.approvals?.some(a => a.memberId === member.id));
+
+const withComment = (review: GoogleReview, member: TeamMember, text: string, status?: ReviewStatus): GoogleReview => {
+  if (!text.trim()) return review;
+  const comment = { memberId: member.id, memberName: member.name, text: text.trim(), status, at: new Date().toISOString() };
+  return { ...review, comments: [...(review.comments || []), comment] };
+};
+
+export const submitForReview = (review: GoogleReview): GoogleReview =>
+  ({ ...review, status: 'in_review', approvals: [] });
+
+/**
+ * Adds the member's approval. The draft is approved once it has enough distinct approvers,
+ * so nobody can approve the same draft twice.
+ */
+export const approveDraft = (review: GoogleReview, member: TeamMember, comment = ''): GoogleReview => {
+  if (!canApprove(member)) throw new Error("Only approvers can approve replies.");
+  if (hasApproved(review, member)) throw new Error("You have already approved this reply; it needs another approver.");
+  const approvals = [...(review.approvals || []), { memberId: member.id, memberName: member.name, at: new Date().toISOString() }];
+  const status: ReviewStatus = approvals.length >= requiredApprovals(review) ? 'approved' : 'in_review';
+  return withComment({ ...review, status, approvals }, member, comment, status);
+};
+
+export const requestChanges = (review: GoogleReview, member: TeamMember, comment: string): GoogleReview => {
+  if (!canApprove(member)) throw new Error("Only approvers can request changes.");
+  return withComment({ ...review, status: 'needs_changes', approvals: [] }, member, comment, 'needs_changes');
+};
+
+export const rejectDraft = (review: GoogleReview, member: TeamMember, comment: string): GoogleReview => {
+  if (!canApprove(member)) throw new Error("Only approvers can reject replies.");
+  return withComment({ ...review, status: 'rejected', approvals: [] }, member, comment, 'rejected');
+};
+
+export const addComment = (review: GoogleReview, member: TeamMember, text: string): GoogleReview =>
+  withComment(review, member, text);
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { AutoReplyRule, GoogleReview, Language } from '../types';
+import { matchesAutoReplyRule, planAutoReplies } from './autoReplyEngine';
+
+const NOW = Date.parse('2024-05-12T12:00:00Z');
+
+const review = (id: string, overrides: Partial<GoogleReview> = {}): GoogleReview => ({
+  id,
+  reviewId: id,
+  locationId: 'accounts/1/locations/1',
+  reviewerName: 'Guest',
+  rating: 5,
+  content: 'Great food',
+  date: '',
+  createTime: '2024-05-10T12:00:00Z',
+  updateTime: '2024-05-10T12:00:00Z',
+  status: 'pending',
+  ...overrides
+});
+
+const rule = (overrides: Partial<AutoReplyRule> = {}): AutoReplyRule => ({
+  id: 'five-stars',
+  name: 'Five stars',
+  enabled: true,
+  minRating: 5,
+  action: 'post',
+  dailyCap: 10,
+  ...overrides
+});
+
+const english = () => Language.English;
+
+describe('matchesAutoReplyRule', () => {
+  it('checks rating, text and keywords', () => {
+    expect(matchesAutoReplyRule(rule(), review('a'), Language.English)).toBe(true);
+    expect(matchesAutoReplyRule(rule(), review('a', { rating: 4 }), Language.English)).toBe(false);
+    expect(matchesAutoReplyRule(rule({ hasText: false }), review('a'), Language.English)).toBe(false);
+    expect(matchesAutoReplyRule(rule({ keywords: ['FOOD'] }), review('a'), Language.English)).toBe(true);
+    expect(matchesAutoReplyRule(rule({ keywords: ['parking'] }), review('a'), Language.English)).toBe(false);
+  });
+
+  it('only matches a sentiment from a current analysis', () => {
+    const stale = review('a', { analysis: { sentiment: 'positive', contentHash: 'other' } as any });
+    expect(matchesAutoReplyRule(rule({ sentiment: 'positive' }), stale, Language.English)).toBe(false);
+  });
+});
+
+describe('planAutoReplies', () => {
+  it('plans pending reviews only, oldest first', () => {
+    const plan = planAutoReplies([
+      review('new', { createTime: '2024-05-11T12:00:00Z' }),
+      review('old', { createTime: '2024-05-09T12:00:00Z' }),
+      review('done', { status: 'replied' })
+    ], [rule()], english, () => true, NOW);
+
+    expect(plan.map(p => p.review.id)).toEqual(['old', 'new']);
+    expect(plan.every(p => p.status === 'ready' && p.action === 'post')).toBe(true);
+  });
+
+  it('queues instead of posting when a person has to approve', () => {
+    const [lowRating] = planAutoReplies([review('a', { rating: 2 })], [rule({ minRating: 1 })], english, () => true, NOW);
+    expect(lowRating.action).toBe('queue');
+
+    const [noPoster] = planAutoReplies([review('a')], [rule()], english, () => false, NOW);
+    expect(noPoster).toMatchObject({ action: 'queue', note: 'Needs approval before posting' });
+  });
+
+  it('waits for the minimum age', () => {
+    const [item] = planAutoReplies([review('a', { createTime: '2024-05-12T11:00:00Z' })], [rule({ minAgeHours: 2 })], english, () => true, NOW);
+    expect(item.status).toBe('waiting');
+  });
+
+  it('counts what the rule already did today against its daily cap', () => {
+    const actedToday = review('earlier', {
+      status: 'replied',
+      autoReply: { ruleId: 'five-stars', ruleName: 'Five stars', action: 'post', at: new Date(NOW - 60 * 1000).toISOString() }
+    });
+    const plan = planAutoReplies([actedToday, review('a'), review('b')], [rule({ dailyCap: 2 })], english, () => true, NOW);
+    expect(plan.map(p => p.status)).toEqual(['ready', 'capped']);
+  });
+});
@@ -0,0 +1,121 @@
+import { AutoReplyAction, AutoReplyRule, GoogleReview, Language } from '../types';
+import { hasReviewText } from './googleBusinessService';
+import { isAnalysisCurrent } from './analysisService';
+import { createId } from './ids';
+
+// Reviews below this rating are never posted without a person approving the reply
+export const AUTO_POST_MIN_RATING = 3;
+
+export const DEFAULT_DAILY_CAP = 20;
+
+export const AUTO_REPLY_ACTION_LABELS: Record<AutoReplyAction, string> = {
+  draft: 'Draft only',
+  queue: 'Queue for approval',
+  post: 'Post'
+};
+
+// How a review card describes what a rule did
+export const AUTO_REPLY_RECORD_LABELS: Record<AutoReplyAction, string> = {
+  draft: 'Auto-drafted',
+  queue: 'Auto-queued',
+  post: 'Auto-posted'
+};
+
+export type AutoReplyPlanStatus = 'ready' | 'waiting' | 'capped';
+
+export interface AutoReplyPlanItem {
+  review: GoogleReview;
+  rule: AutoReplyRule;
+  action: AutoReplyAction;
+  status: AutoReplyPlanStatus;
+  readyAt: string; // ISO timestamp the rule's minimum age is reached
+  note?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const createAutoReplyRule = (): AutoReplyRule => ({
+  id: createId(),
+  name: 'New rule',
+  enabled: true,
+  minRating: 5,
+  action: 'draft',
+  dailyCap: DEFAULT_DAILY_CAP
+});
+
+export const matchesAutoReplyRule = (rule: AutoReplyRule, review: GoogleReview, language: Language): boolean => {
+  if (rule.minRating !== undefined && review.rating < rule.minRating) return false;
+  if (rule.maxRating !== undefined && review.rating > rule.maxRating) return false;
+  if (rule.language && rule.language !== language) return false;
+  if (rule.hasText !== undefined && rule.hasText !== hasReviewText(review.content)) return false;
+  if (rule.keywords?.length) {
+    const content = review.content.toLowerCase();
+    if (!rule.keywords.some(k => content.includes(k.toLowerCase()))) return false;
+  }
+  if (rule.sentiment) {
+    if (!isAnalysisCurrent(review.analysis, review.content) || review.analysis!.sentiment !== rule.sentiment) return false;
+  }
+  return true;
+};
+
+const startOfDay = (now: number) => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Works out what the rules would do to the pending reviews right now, without doing it.
+ * Used both for the dry-run preview and to pick the reviews a run acts on. Older reviews
+ * are planned first, so they get a rule's remaining daily cap. Reviews that can't be posted
+ * without a person, per the rating floor or `canAutoPost`, are queued for approval instead.
+ */
+export const planAutoReplies = (
+  reviews: GoogleReview[],
+  rules: AutoReplyRule[],
+  languageFor: (review: GoogleReview) => Language,
+  canAutoPost: (review: GoogleReview) => boolean = () => true,
+  now = Date.now()
+): AutoReplyPlanItem[] => {
+  const enabled = rules.filter(r => r.enabled);
+  if (!enabled.length) return [];
+
+  // Daily caps count what the rules already did today
+  const today = startOfDay(now);
+  const used: Record<string, number> = {};
+  for (const review of reviews) {
+    if (review.autoReply && Date.parse(review.autoReply.at) >= today) {
+      used[review.autoReply.ruleId] = (used[review.autoReply.ruleId] || 0) + 1;
+    }
+  }
+
+  const candidates = reviews
+    .filter(r => r.status === 'pending' && !r.autoReply)
+    .sort((a, b) => a.createTime.localeCompare(b.createTime));
+
+  const plan: AutoReplyPlanItem[] = [];
+  for (const review of candidates) {
+    const rule = enabled.find(r => matchesAutoReplyRule(r, review, languageFor(review)));
+    if (!rule) continue;
+
+    let note: string | undefined;
+    if (rule.action === 'post' && review.rating < AUTO_POST_MIN_RATING) {
+      note = `${review.rating}-star reviews are never posted automatically`;
+    } else if (rule.action === 'post' && !canAutoPost(review)) {
+      note = 'Needs approval before posting';
+    }
+    const action: AutoReplyAction = note ? 'queue' : rule.action;
+    const readyAt = Date.parse(review.createTime) + (rule.minAgeHours || 0) * HOUR_MS;
+
+    let status: AutoReplyPlanStatus = 'ready';
+    if (now < readyAt) {
+      status = 'waiting';
+    } else if ((used[rule.id] || 0) >= rule.dailyCap) {
+      status = 'capped';
+    } else {
+      used[rule.id] = (used[rule.id] || 0) + 1;
+    }
+    plan.push({ review, rule, action, status, readyAt: new Date(readyAt).toISOString(), note });
+  }
+  return plan;
+};
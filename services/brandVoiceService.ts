@@ -0,0 +1,108 @@
+import { BrandVoiceExample, BusinessProfile, GoogleReview } from '../types';
+import { GoogleApiError } from './googleApiErrors';
+import { hasReviewText } from './googleBusinessService';
+import { getLlmProvider, resolveLlmConfig } from './llmProviders';
+
+export const MAX_VOICE_EXAMPLES = 12;
+
+// Enough replies to show the team's habits while staying under the AI proxy's
+// 20,000-character prompt limit, with room for the instructions
+const STYLE_SAMPLE_MAX_CHARS = 15000;
+
+/**
+ * Reviews the team has already answered, newest first
+ */
+export const getPastReplies = (reviews: GoogleReview[]): GoogleReview[] =>
+  reviews
+    .filter(r => r.status === 'replied' && r.replyContent?.trim())
+    .sort((a, b) => (b.replyUpdateTime || b.updateTime).localeCompare(a.replyUpdateTime || a.updateTime));
+
+export const toVoiceExample = (review: GoogleReview): BrandVoiceExample => ({
+  reviewId: review.id,
+  rating: review.rating,
+  reviewContent: review.content,
+  replyContent: review.replyContent || ''
+});
+
+/**
+ * Picks a starting set of examples spread across star ratings, preferring
+ * reviews with text and replies of a typical length
+ */
+export const suggestExamples = (reviews: GoogleReview[], limit = 6): BrandVoiceExample[] => {
+  const candidates = getPastReplies(reviews).filter(r => {
+    const length = r.replyContent!.length;
+    return hasReviewText(r.content) && length >= 60 && length <= 800;
+  });
+
+  const byRating = new Map<number, GoogleReview[]>();
+  for (const review of candidates) {
+    byRating.set(review.rating, [...(byRating.get(review.rating) || []), review]);
+  }
+
+  const picked: GoogleReview[] = [];
+  const ratings = [...byRating.keys()].sort((a, b) => a - b);
+  while (picked.length < limit && ratings.some(r => byRating.get(r)!.length)) {
+    for (const rating of ratings) {
+      const next = byRating.get(rating)!.shift();
+      if (next && picked.length < limit) picked.push(next);
+    }
+  }
+  return picked.map(toVoiceExample);
+};
+
+/**
+ * The curated examples closest in rating to the review being answered
+ */
+export const selectFewShotExamples = (examples: BrandVoiceExample[], rating: number, count = 3): BrandVoiceExample[] =>
+  [...examples]
+    .sort((a, b) => Math.abs(a.rating - rating) - Math.abs(b.rating - rating))
+    .slice(0, count);
+
+/**
+ * The newest replies that fit in the style prompt. A reply too long to fit is skipped
+ * so the shorter ones after it still get in.
+ */
+export const selectStyleSample = (replies: string[]): string[] => {
+  const sample: string[] = [];
+  let chars = 0;
+  for (const reply of replies) {
+    const length = reply.length + 12; // Numbering, quotes and indentation
+    if (chars + length > STYLE_SAMPLE_MAX_CHARS) continue;
+    sample.push(reply);
+    chars += length;
+  }
+  return sample;
+};
+
+/**
+ * Asks the model to describe how the business writes its replies
+ */
+export const buildStyleProfile = async (businessProfile: BusinessProfile, replies: string[]): Promise<string> => {
+  const sample = selectStyleSample(replies);
+
+  const prompt = `
+    You are analyzing how ${businessProfile.name} replies to its customer reviews.
+
+    Past replies written by the team:
+    ${sample.map((reply, i) => `${i + 1}. "${reply}"`).join('\n    ')}
+
+    Describe their writing style as a short list of concrete instructions another writer could follow:
+    greeting and sign-off habits, typical length, formality, use of the reviewer's name, emoji use,
+    recurring phrases, and how they handle complaints versus praise.
+    Only output the list, no introduction.
+  `;
+
+  const llmConfig = resolveLlmConfig(businessProfile.llm);
+
+  try {
+    const text = await getLlmProvider(llmConfig.provider).generate(prompt, llmConfig, {
+      feature: 'voice',
+      accessToken: businessProfile.accessToken
+    });
+    return text.trim();
+  } catch (error) {
+    console.error("Error building style profile:", error);
+    if (error instanceof GoogleApiError) throw error;
+    throw new Error("Failed to analyze past replies. Please try again.");
+  }
+};
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BulkDraftProgress } from '../types';
+import { QuotaError } from './googleApiErrors';
+import { createBulkDraftJob } from './bulkDraftJob';
+
+describe('createBulkDraftJob', () => {
+  let progress: BulkDraftProgress | undefined;
+  const onUpdate = (p: BulkDraftProgress) => { progress = p; };
+  const statusOf = (id: string) => progress!.items.find(i => i.reviewId === id)!.status;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    progress = undefined;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('drafts every review and finishes', async () => {
+    const draft = vi.fn().mockResolvedValue(undefined);
+    createBulkDraftJob(['a', 'b', 'c'], draft, { concurrency: 2, onUpdate });
+    await vi.runAllTimersAsync();
+
+    expect(draft).toHaveBeenCalledTimes(3);
+    expect(progress!.state).toBe('finished');
+    expect(progress!.items.every(i => i.status === 'done')).toBe(true);
+  });
+
+  it('starts nothing new while paused and carries on after resume', async () => {
+    const draft = vi.fn().mockResolvedValue(undefined);
+    const job = createBulkDraftJob(['a', 'b', 'c'], draft, { concurrency: 1, onUpdate });
+    job.pause();
+    await vi.runAllTimersAsync();
+
+    expect(draft).toHaveBeenCalledTimes(1); // The one already started
+    expect(progress!.state).toBe('paused');
+    expect(statusOf('c')).toBe('queued');
+
+    job.resume();
+    await vi.runAllTimersAsync();
+    expect(draft).toHaveBeenCalledTimes(3);
+    expect(progress!.state).toBe('finished');
+  });
+
+  it('backs every worker off after a rate limit and retries the review', async () => {
+    const draft = vi.fn()
+      .mockRejectedValueOnce(new QuotaError('Rate limited', 429))
+      .mockResolvedValue(undefined);
+    createBulkDraftJob(['a', 'b'], draft, { concurrency: 1, onUpdate });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(statusOf('a')).toBe('rateLimited');
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(draft).toHaveBeenCalledTimes(1); // Still cooling down
+
+    await vi.runAllTimersAsync();
+    expect(draft).toHaveBeenCalledTimes(3);
+    expect(statusOf('a')).toBe('done');
+    expect(progress!.state).toBe('finished');
+  });
+
+  it('gives up on a review after the last attempt', async () => {
+    const draft = vi.fn().mockRejectedValue(new QuotaError('Rate limited', 429));
+    createBulkDraftJob(['a'], draft, { maxAttempts: 2, onUpdate });
+    await vi.runAllTimersAsync();
+
+    expect(draft).toHaveBeenCalledTimes(2);
+    expect(statusOf('a')).toBe('failed');
+    expect(progress!.state).toBe('finished');
+  });
+
+  it('cancels the reviews not yet started', async () => {
+    const draft = vi.fn().mockResolvedValue(undefined);
+    const job = createBulkDraftJob(['a', 'b'], draft, { concurrency: 1, onUpdate });
+    job.cancel();
+    await vi.runAllTimersAsync();
+
+    expect(progress!.state).toBe('cancelled');
+    expect(statusOf('b')).toBe('cancelled');
+  });
+});
@@ -0,0 +1,118 @@
+import { BulkDraftItem, BulkDraftJobState, BulkDraftProgress } from "../types";
+import { QuotaError, getErrorMessage, isRetryable } from "./googleApiErrors";
+
+interface BulkDraftJobOptions {
+  concurrency?: number;
+  maxAttempts?: number; // Per review, including rate-limited retries
+  onUpdate: (progress: BulkDraftProgress) => void;
+}
+
+export interface BulkDraftJob {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+const RATE_LIMIT_COOLDOWN_MS = 5000;
+
+/**
+ * Drafts replies for many reviews with limited concurrency. Also runs other per-review
+ * model tasks, such as analysis, that need the same rate-limit handling.
+ * Rate-limited items are re-queued and all workers back off together,
+ * since the limit applies to the whole API key rather than one request.
+ */
+export const createBulkDraftJob = (
+  reviewIds: string[],
+  draft: (reviewId: string) => Promise<void>,
+  { concurrency = 3, maxAttempts = 3, onUpdate }: BulkDraftJobOptions
+): BulkDraftJob => {
+  let state: BulkDraftJobState = 'running';
+  let items: BulkDraftItem[] = reviewIds.map(reviewId => ({ reviewId, status: 'queued', attempts: 0 }));
+  let activeWorkers = 0;
+  let cooldownUntil = 0;
+
+  const emit = () => onUpdate({ state, items });
+
+  const setItem = (reviewId: string, changes: Partial<BulkDraftItem>) => {
+    items = items.map(item => item.reviewId === reviewId ? { ...item, ...changes } : item);
+    emit();
+  };
+
+  const finishIfDone = () => {
+    if (state !== 'running' || activeWorkers > 0) return;
+    if (items.some(item => item.status === 'queued' || item.status === 'rateLimited')) return;
+    state = 'finished';
+    emit();
+  };
+
+  const nextItem = () => items.find(item => item.status === 'queued')
+    || items.find(item => item.status === 'rateLimited');
+
+  const runWorker = async () => {
+    activeWorkers++;
+    try {
+      while (state === 'running') {
+        const wait = cooldownUntil - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+          continue;
+        }
+
+        const item = nextItem();
+        if (!item) break;
+
+        const attempts = item.attempts + 1;
+        setItem(item.reviewId, { status: 'running', attempts, error: undefined });
+        try {
+          await draft(item.reviewId);
+          setItem(item.reviewId, { status: 'done' });
+        } catch (e) {
+          if (isRetryable(e) && attempts < maxAttempts) {
+            if (e instanceof QuotaError) {
+              cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN_MS * attempts;
+            }
+            setItem(item.reviewId, { status: 'rateLimited', error: getErrorMessage(e) });
+          } else {
+            setItem(item.reviewId, { status: 'failed', error: getErrorMessage(e) });
+          }
+        }
+      }
+    } finally {
+      activeWorkers--;
+      finishIfDone();
+    }
+  };
+
+  const start = () => {
+    const workers = Math.max(1, Math.min(concurrency, items.length));
+    for (let i = activeWorkers; i < workers; i++) runWorker();
+    emit();
+  };
+
+  start();
+
+  return {
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      emit();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      start();
+      finishIfDone();
+    },
+    cancel: () => {
+      if (state === 'finished' || state === 'cancelled') return;
+      state = 'cancelled';
+      // Requests already in flight are allowed to complete
+      items = items.map(item =>
+        item.status === 'queued' || item.status === 'rateLimited'
+          ? { ...item, status: 'cancelled' }
+          : item
+      );
+      emit();
+    }
+  };
+};
@@ -0,0 +1,40 @@
+import { DraftVariant, DraftVariantStyle, GenerateReplyParams, Tone } from '../types';
+import { generateReviewReply } from './geminiService';
+
+interface VariantStyleSpec {
+  label: string;
+  tone?: Tone; // Replaces the selected tone
+  instruction?: string;
+}
+
+export const VARIANT_STYLES: Record<DraftVariantStyle, VariantStyleSpec> = {
+  standard: { label: 'Selected tone' },
+  short: { label: 'Short', instruction: 'Keep it to one or two short sentences.' },
+  detailed: { label: 'Detailed', instruction: 'Write four to six sentences and respond to each point the reviewer made.' },
+  formal: { label: 'Formal', instruction: 'Use a formal, polite register: no slang, no emoji, no exclamation marks.' },
+  casual: { label: 'Casual', instruction: 'Use a relaxed, conversational register, as if talking to a regular.' },
+  friendly: { label: 'Friendly', tone: Tone.Friendly },
+  empathetic: { label: 'Empathetic', tone: Tone.Empathetic }
+};
+
+// Generated together when asking for variants
+export const DEFAULT_VARIANT_STYLES: DraftVariantStyle[] = ['standard', 'short', 'formal'];
+
+export const generateDraftVariant = async (params: GenerateReplyParams, style: DraftVariantStyle): Promise<DraftVariant> => {
+  const spec = VARIANT_STYLES[style];
+  const content = await generateReviewReply({
+    ...params,
+    tone: spec.tone || params.tone,
+    instruction: spec.instruction
+  });
+  return { style, content, createdAt: new Date().toISOString() };
+};
+
+/**
+ * Splits a variant into sentences so parts of several variants can be merged.
+ * Keeps the closing punctuation and works for scripts without spaces after full stops.
+ */
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^.!?。！？\n]+(?:[.!?。！？]+|$)/g) || [])
+    .map(s => s.trim())
+    .filter(Boolean);
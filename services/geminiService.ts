@@ -1,53 +1,179 @@
-import { GoogleGenAI } from "@google/genai";
-import { GenerateReplyParams } from '../types';
+import { BrandVoice, GenerateReplyParams, KnowledgeBase, RefineAction, RefineReplyParams, ReviewAnalysis, Tone } from '../types';
+import { GoogleApiError } from './googleApiErrors';
+import { selectFewShotExamples } from './brandVoiceService';
+import { fillTemplate } from './templateService';
+import { businessNameFor } from './googleBusinessService';
+import { getLlmProvider, resolveLlmConfig } from './llmProviders';
 
-// Initialize the API client
-// Note: API Key is injected via process.env.API_KEY automatically in this environment.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The AI proxy refuses prompts over 20000 characters, so free-text settings are cut to size
+const MAX_POLICIES_CHARS = 3000;
+const MAX_STYLE_PROFILE_CHARS = 2000;
+const MAX_EXAMPLE_CHARS = 600;
 
+const clip = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text;
+
+/**
+ * Renders the filled-in parts of a location's knowledge base for the prompt
+ */
+const formatKnowledgeBase = (kb: KnowledgeBase): string => {
+  const lines = [
+    kb.contactChannels && `- Contact channels: ${kb.contactChannels}`,
+    kb.hours && `- Opening hours: ${kb.hours}`,
+    kb.policies && `- Policies: ${clip(kb.policies, MAX_POLICIES_CHARS)}`,
+    kb.staff?.length && `- Staff: ${kb.staff.join(', ')}`,
+    kb.signatureItems?.length && `- Signature dishes/services: ${kb.signatureItems.join(', ')}`,
+    kb.neverPromise?.length && `- Never promise: ${kb.neverPromise.join('; ')}`
+  ];
+  return lines.filter(Boolean).join('\n    ');
+};
+
+/**
+ * Summarizes the structured analysis of the review for the prompt
+ */
+const formatAnalysis = (analysis: ReviewAnalysis): string => [
+  `- Overall sentiment: ${analysis.sentiment}`,
+  analysis.topics.length > 0 && `- Topics: ${analysis.topics.map(t => `${t.topic.replace('_', ' ')} (${t.sentiment})`).join(', ')}`,
+  `- Urgency: ${analysis.urgency}`,
+  analysis.staffNames.length > 0 && `- Staff mentioned: ${analysis.staffNames.join(', ')}`
+].filter(Boolean).join('\n    ');
+
+/**
+ * Style instructions and the closest curated examples for brand voice replies
+ */
+const formatBrandVoice = (voice: BrandVoice, rating: number): string => {
+  const examples = selectFewShotExamples(voice.examples, rating);
+  return [
+    voice.styleProfile && `Our Writing Style:\n    ${clip(voice.styleProfile, MAX_STYLE_PROFILE_CHARS).split('\n').join('\n    ')}`,
+    examples.length > 0 && `Replies We Have Written Before (match their voice, do not copy them):\n    ${examples
+      .map(e => `- Review (${e.rating} stars): "${clip(e.reviewContent, MAX_EXAMPLE_CHARS) || '(no text)'}"\n      Our reply: "${clip(e.replyContent, MAX_EXAMPLE_CHARS)}"`)
+      .join('\n    ')}`
+  ].filter(Boolean).join('\n\n    ');
+};
+
+/**
+ * Writes a reply for the review. A 'reply' mode template is filled in and returned
+ * without calling the model; a 'skeleton' template is personalized by it.
+ */
 export const generateReviewReply = async (params: GenerateReplyParams): Promise<string> => {
-  const { businessProfile, review, tone, language } = params;
+  const { businessProfile, review, tone, language, template, analysis, instruction } = params;
+  const filledTemplate = template ? fillTemplate(template, businessProfile, review, params.locationId) : '';
+  if (template?.mode === 'reply') return filledTemplate;
+
+  const knowledgeBase = businessProfile.knowledgeBase?.[params.locationId || businessProfile.locationId];
+  const knowledge = knowledgeBase ? formatKnowledgeBase(knowledgeBase) : '';
+  const brandVoice = tone === Tone.BrandVoice && businessProfile.brandVoice
+    ? formatBrandVoice(businessProfile.brandVoice, review.rating)
+    : '';
 
   const prompt = `
     You are an expert social media manager and customer experience specialist for a business.
     
     Business Details:
-    - Name: ${businessProfile.name}
+    - Name: ${businessNameFor(businessProfile, params.locationId)}
     - Industry/Type: ${businessProfile.type || 'General Business'}
     ${businessProfile.signature ? `- Sign-off: ${businessProfile.signature}` : ''}
+    ${knowledge ? `\n    Business Knowledge (facts you may rely on):\n    ${knowledge}\n` : ''}
 
+    ${brandVoice ? `${brandVoice}\n` : ''}
     The Customer Review:
     - Reviewer: ${review.reviewerName || "A valued customer"}
     - Rating: ${review.rating} / 5 stars
     - Content: "${review.content}"
+    ${analysis ? `\n    Review Analysis:\n    ${formatAnalysis(analysis)}\n` : ''}
 
     Your Task:
     Write a reply to this review in ${language}.
+    ${filledTemplate ? `Start from our house template below. Keep its structure and key messages, translate it if needed, and personalize it to what the reviewer wrote:\n    "${filledTemplate}"\n` : ''}
     
     Guidelines:
-    1. Tone: ${tone}.
+    1. Tone: ${brandVoice ? 'Write in our own voice, following the style and examples above' : tone === Tone.BrandVoice ? Tone.Professional : tone}.
     2. Be specific to the review content. Address their specific praise or complaints.
     3. If the rating is low (1-3 stars), be apologetic, professional, and offer a way to resolve it (e.g., "please contact us").
     4. If the rating is high (4-5 stars), be grateful and inviting.
     5. Keep it concise but human-sounding. 
-    6. Do not include placeholders like "[Phone Number]" unless you genericize it to "our office".
+    6. ${knowledge
+      ? 'Use only the Business Knowledge above for facts. When resolving a problem, point to the listed contact channels. Never invent phone numbers, emails, hours or policies, and never promise anything listed under "Never promise".'
+      : 'Do not include placeholders like "[Phone Number]" unless you genericize it to "our office".'}
     7. Just output the reply text, no markdown formatting for headers.
+    ${analysis ? `8. Respond to each negative topic in the analysis, thank any staff mentioned by name, and ${analysis.urgency === 'high' ? 'treat this as urgent: invite them to contact us directly so a manager can follow up.' : 'keep the focus on what they said.'}` : ''}
+    ${instruction ? `\n    Additional instruction (takes priority over guidelines 1 and 5): ${instruction}` : ''}
   `;
 
+  // Model and generation settings are chosen per business
+  const llmConfig = resolveLlmConfig(businessProfile.llm);
+
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        temperature: 0.7, // Balance between creativity and professionalism
-        topK: 40,
-        topP: 0.95,
-      }
+    const text = await getLlmProvider(llmConfig.provider).generate(prompt, llmConfig, {
+      feature: 'reply',
+      accessToken: businessProfile.accessToken
     });
-
-    return response.text || "Could not generate a reply. Please try again.";
+    return text || "Could not generate a reply. Please try again.";
   } catch (error) {
     console.error("Error generating reply:", error);
+    // Keep rate limits and server errors distinguishable so bulk jobs can retry them
+    if (error instanceof GoogleApiError) throw error;
     throw new Error("Failed to generate reply. Please check your connection or API limit.");
   }
+};
+
+export const REFINE_ACTIONS: Record<RefineAction, { label: string; instruction: string }> = {
+  shorter: { label: 'Shorter', instruction: 'Make it shorter, about half the length, keeping the key message.' },
+  warmer: { label: 'Warmer', instruction: 'Make it warmer and more personal, without overdoing it.' },
+  more_formal: { label: 'More formal', instruction: 'Make it more formal and polite: no slang, no emoji, no exclamation marks.' },
+  mention_manager: { label: 'Mention manager', instruction: 'Mention that the manager has personally read this review.' },
+  offer_refund: { label: 'Offer refund/voucher', instruction: 'Offer a refund or a voucher for their next visit, and say how to get in touch to claim it.' },
+  remove_apology: { label: 'Remove apology', instruction: 'Remove any apology while keeping the reply polite.' }
+};
+
+/**
+ * Revises an existing draft following one instruction, leaving the rest of it alone
+ */
+export const refineReply = async (params: RefineReplyParams): Promise<string> => {
+  const { businessProfile, review, draft, instruction, language } = params;
+  const knowledgeBase = businessProfile.knowledgeBase?.[params.locationId || businessProfile.locationId];
+  const knowledge = knowledgeBase ? formatKnowledgeBase(knowledgeBase) : '';
+
+  const prompt = `
+    You are editing a business's reply to a customer review.
+
+    Business Details:
+    - Name: ${businessNameFor(businessProfile, params.locationId)}
+    - Industry/Type: ${businessProfile.type || 'General Business'}
+    ${businessProfile.signature ? `- Sign-off: ${businessProfile.signature}` : ''}
+    ${knowledge ? `\n    Business Knowledge (facts you may rely on):\n    ${knowledge}\n` : ''}
+
+    The Customer Review:
+    - Reviewer: ${review.reviewerName || "A valued customer"}
+    - Rating: ${review.rating} / 5 stars
+    - Content: "${review.content}"
+
+    Current Draft Reply:
+    """${draft}"""
+
+    Requested Change:
+    ${instruction}
+
+    Guidelines:
+    1. Make only the requested change. Keep everything else in the draft, including names and the sign-off.
+    2. Write the revised reply in ${language}.
+    3. ${knowledge
+      ? 'Use only the Business Knowledge above for facts and contact channels. Never promise anything listed under "Never promise", even if the requested change asks for it.'
+      : 'Never invent phone numbers, emails, hours or policies.'}
+    4. Just output the revised reply text, no quotes or notes.
+  `;
+
+  const llmConfig = resolveLlmConfig(businessProfile.llm);
+
+  try {
+    const text = await getLlmProvider(llmConfig.provider).generate(prompt, llmConfig, {
+      feature: 'refine',
+      accessToken: businessProfile.accessToken
+    });
+    return text.trim() || draft;
+  } catch (error) {
+    console.error("Error refining reply:", error);
+    if (error instanceof GoogleApiError) throw error;
+    throw new Error("Failed to refine the reply. Please try again.");
+  }
 };
\ No newline at end of file
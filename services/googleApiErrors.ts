@@ -0,0 +1,151 @@
+/**
+ * Typed errors for Google Business Profile API calls.
+ * Each error keeps the HTTP status and the raw Google error payload for debugging.
+ */
+export type GoogleApiErrorKind = 'auth' | 'permission' | 'quota' | 'notFound' | 'network' | 'validation' | 'conflict' | 'server' | 'unknown';
+
+export class GoogleApiError extends Error {
+  kind: GoogleApiErrorKind;
+  status?: number;
+  payload?: any;
+
+  constructor(kind: GoogleApiErrorKind, message: string, status?: number, payload?: any) {
+    super(message);
+    this.name = 'GoogleApiError';
+    this.kind = kind;
+    this.status = status;
+    this.payload = payload;
+  }
+
+  /**
+   * The reason code Google attaches to the error, e.g. SERVICE_DISABLED
+   */
+  get reason(): string | undefined {
+    const details: any[] = this.payload?.error?.details || [];
+    return details.find(d => d.reason)?.reason || this.payload?.error?.errors?.[0]?.reason;
+  }
+}
+
+export class AuthError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('auth', message, status, payload);
+    this.name = 'AuthError';
+  }
+}
+
+export class PermissionError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('permission', message, status, payload);
+    this.name = 'PermissionError';
+  }
+}
+
+export class QuotaError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('quota', message, status, payload);
+    this.name = 'QuotaError';
+  }
+}
+
+export class NotFoundError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('notFound', message, status, payload);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class NetworkError extends GoogleApiError {
+  constructor(message: string) {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ValidationError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('validation', message, status, payload);
+    this.name = 'ValidationError';
+  }
+}
+
+// The item changed on Google since it was last synced
+export class ConflictError extends GoogleApiError {
+  constructor(message: string) {
+    super('conflict', message);
+    this.name = 'ConflictError';
+  }
+}
+
+export class ServerError extends GoogleApiError {
+  constructor(message: string, status?: number, payload?: any) {
+    super('server', message, status, payload);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Builds the matching error from a failed response. `action` completes
+ * "Failed to ...", e.g. "fetch reviews".
+ */
+export const toGoogleApiError = async (response: Response, action: string): Promise<GoogleApiError> => {
+  let payload: any;
+  try {
+    payload = await response.json();
+  } catch {
+    payload = undefined;
+  }
+  console.error(`Google API error (${response.status}) while trying to ${action}:`, payload);
+
+  const detail = payload?.error?.message;
+  const message = `Failed to ${action}${detail ? `: ${detail}` : '.'}`;
+  const { status } = response;
+
+  if (status === 401) return new AuthError(message, status, payload);
+  if (status === 403) return new PermissionError(message, status, payload);
+  if (status === 404) return new NotFoundError(message, status, payload);
+  if (status === 429) return new QuotaError(message, status, payload);
+  if (status === 400 || status === 409 || status === 422) return new ValidationError(message, status, payload);
+  if (status >= 500) return new ServerError(message, status, payload);
+  return new GoogleApiError('unknown', message, status, payload);
+};
+
+/**
+ * Only rate limits, server errors and dropped connections are worth retrying
+ */
+export const isRetryable = (error: unknown) =>
+  error instanceof QuotaError || error instanceof ServerError || error instanceof NetworkError;
+
+/**
+ * A specific, actionable message to show the user for any error
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (!(error instanceof GoogleApiError)) {
+    return (error instanceof Error && error.message) || "Something went wrong. Check console for details.";
+  }
+  // The app's own AI and team workflow routes explain themselves
+  if (/^(AI|WORKFLOW)_/.test(error.reason || '')) return error.message;
+
+  switch (error.kind) {
+    case 'auth':
+      return "Your Google session is no longer valid. Disconnect and sign in again to continue.";
+    case 'permission':
+      if (error.reason === 'SERVICE_DISABLED' || error.reason === 'accessNotConfigured') {
+        return "A required Google Business Profile API is not enabled. Enable it under APIs & Services in your GCP project, then retry.";
+      }
+      return "Access denied (403). Make sure this Google account manages the location and that your email is listed under 'Test Users' on the OAuth consent screen.";
+    case 'quota':
+      return "Google API quota exceeded. Wait a minute before retrying, or request a higher quota in the GCP console.";
+    case 'notFound':
+      return "Google could not find this item. The location or review may have been removed; try syncing again.";
+    case 'network':
+      return "Could not reach Google. Check your internet connection, and make sure no ad blocker or proxy is blocking googleapis.com.";
+    case 'validation':
+      return `Google rejected the request. ${error.payload?.error?.message || 'Check the reply text and try again.'}`;
+    case 'conflict':
+      return error.message;
+    case 'server':
+      return "Google's servers are having trouble right now. Please try again in a few minutes.";
+    default:
+      return error.message;
+  }
+};
@@ -1,17 +1,67 @@
-import { BusinessProfile, GoogleReview } from "../types";
+import {
+  BusinessProfile,
+  ConnectedLocation,
+  FetchReviewsOptions,
+  GoogleAccount,
+  GoogleLocation,
+  GoogleReview,
+  PostalAddress,
+  ReviewReply,
+  ReviewSyncResult
+} from "../types";
+import { AuthError, ConflictError, GoogleApiError, NetworkError, isRetryable, toGoogleApiError } from "./googleApiErrors";
+import { detectLanguage, splitGoogleTranslation } from "./languageService";
 
 /**
- * SCOPES needed for Google Business Profile
+ * SCOPES needed for Google Business Profile. `openid email` identify the user to the AI proxy.
  */
 const SCOPES = [
+  'openid',
+  'email',
   'https://www.googleapis.com/auth/business.manage',
   'https://www.googleapis.com/auth/business.manage.comments' // Deprecated but sometimes needed for fallback
 ].join(' ');
 
+const GOOGLE_API_HOSTS = {
+  accountManagement: 'https://mybusinessaccountmanagement.googleapis.com',
+  businessInformation: 'https://mybusinessbusinessinformation.googleapis.com',
+  reviews: 'https://mybusiness.googleapis.com'
+};
+
+// Served by the mock plugin in mock/googleBusinessMock.ts (dev and preview servers only)
+const DEMO_API_PREFIX = '/mock-gbp';
+const DEMO_API_HOSTS = {
+  accountManagement: `${DEMO_API_PREFIX}/accountmanagement`,
+  businessInformation: `${DEMO_API_PREFIX}/businessinformation`,
+  reviews: `${DEMO_API_PREFIX}/reviews`
+};
+
+export const DEMO_ACCESS_TOKEN = 'demo-access-token';
+
+let apiHosts = GOOGLE_API_HOSTS;
+
+/**
+ * Routes every API call to the local mock server instead of Google
+ */
+export const setDemoMode = (enabled: boolean) => {
+  apiHosts = enabled ? DEMO_API_HOSTS : GOOGLE_API_HOSTS;
+};
+
+/**
+ * Makes the mock server fail the next `times` requests with the given HTTP status
+ */
+export const simulateDemoError = async (status: number | null, times = 1) => {
+  await fetch(`${DEMO_API_PREFIX}/_simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, times })
+  });
+};
+
 /**
  * Initializes the Google Token Client
  */
-export const initGoogleAuth = (clientId: string, callback: (response: any) => void) => {
+export const initGoogleAuth = (clientId: string, callback: (response: any) => void, errorCallback?: (error: any) => void) => {
   // @ts-ignore
   if (window.google && window.google.accounts) {
     // @ts-ignore
@@ -19,103 +69,404 @@ export const initGoogleAuth = (clientId: string, callback: (response: any) => vo
       client_id: clientId.trim(),
       scope: SCOPES,
       callback: callback,
+      error_callback: errorCallback,
     });
   }
   throw new Error("Google Identity Services script not loaded.");
 };
 
 /**
- * 1. Fetch Accounts
- * API: https://mybusinessaccountmanagement.googleapis.com/v1/accounts
+ * Converts the token response `expires_in` (seconds) into an absolute timestamp
  */
-export const fetchAccounts = async (accessToken: string) => {
-  const response = await fetch('https://mybusinessaccountmanagement.googleapis.com/v1/accounts', {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
-    }
-  });
-  if (!response.ok) throw new Error('Failed to fetch accounts');
-  return response.json();
+export const getTokenExpiry = (tokenResponse: any): number | undefined => {
+  const expiresIn = Number(tokenResponse?.expires_in);
+  return expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined;
 };
 
 /**
- * 2. Fetch Locations for an Account
- * API: https://mybusinessbusinessinformation.googleapis.com/v1/{accountId}/locations
+ * Requests a new access token without showing the consent screen.
+ * Only succeeds if the user has already granted the scopes to this client.
  */
-export const fetchLocations = async (accessToken: string, accountName: string) => {
-  const response = await fetch(`https://mybusinessbusinessinformation.googleapis.com/v1/${accountName}/locations?readMask=name,title,storeCode,latlng`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
+export const requestAccessTokenSilently = (clientId: string): Promise<{ accessToken: string; expiresAt?: number }> => {
+  return new Promise((resolve, reject) => {
+    try {
+      const tokenClient = initGoogleAuth(
+        clientId,
+        (tokenResponse: any) => {
+          if (tokenResponse && tokenResponse.access_token) {
+            resolve({ accessToken: tokenResponse.access_token, expiresAt: getTokenExpiry(tokenResponse) });
+          } else {
+            reject(new Error(tokenResponse?.error || "Silent token renewal failed."));
+          }
+        },
+        (error: any) => reject(new Error(error?.type || "Silent token renewal failed."))
+      );
+      tokenClient.requestAccessToken({ prompt: '' });
+    } catch (err) {
+      reject(err);
     }
   });
-  if (!response.ok) throw new Error('Failed to fetch locations');
-  return response.json();
 };
 
 /**
- * 3. Fetch Reviews for a Location
- * Note: Reviews API is still largely on v4 in some contexts, but let's try the v4 endpoint which is standard for reviews.
- * API: https://mybusiness.googleapis.com/v4/{name}/reviews
+ * Called when a request fails with 401. Should resolve to a fresh access token,
+ * or reject if the user has to sign in again.
  */
-export const fetchGoogleReviews = async (accessToken: string, locationName: string): Promise<GoogleReview[]> => {
-  // locationName format: accounts/{accountId}/locations/{locationId}
-  const url = `https://mybusiness.googleapis.com/v4/${locationName}/reviews`;
-  
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
+let accessTokenRefresher: (() => Promise<string>) | null = null;
+let pendingRefresh: Promise<string> | null = null;
+const renewedTokens = new Map<string, string>();
+
+export const setAccessTokenRefresher = (refresher: (() => Promise<string>) | null) => {
+  accessTokenRefresher = refresher;
+};
+
+/**
+ * Renews the given token through the registered refresher.
+ * Concurrent callers (e.g. several 401s at once) share a single renewal.
+ */
+export const renewAccessToken = (staleToken: string): Promise<string> => {
+  if (!accessTokenRefresher) return Promise.reject(new Error("No access token refresher registered."));
+  if (!pendingRefresh) {
+    pendingRefresh = accessTokenRefresher!()
+      .then(token => {
+        renewedTokens.set(staleToken, token);
+        return token;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+// Follows renewals so long-running loops keep using the newest token
+const latestToken = (accessToken: string) => {
+  let token = accessToken;
+  while (renewedTokens.has(token)) token = renewedTokens.get(token)!;
+  return token;
+};
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Honors Retry-After when Google sends it, otherwise exponential backoff with jitter
+const retryDelay = (attempt: number, response?: Response) => {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return retryAfter * 1000;
+  return BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS;
+};
+
+/**
+ * Authorized fetch against the Google APIs, and the app's own routes that take the Google token.
+ * Throws a typed GoogleApiError for failed responses.
+ * A 401 triggers one token renewal and replay; rate limits, 5xx and network failures are
+ * retried with exponential backoff. `action` completes "Failed to ...".
+ */
+export const googleFetch = async (accessToken: string, url: string, action: string, init: RequestInit = {}): Promise<Response> => {
+  let token = latestToken(accessToken);
+  let renewed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      });
+    } catch (err) {
+      console.error(`Network error while trying to ${action}:`, err);
+      response = undefined;
+    }
+
+    if (response?.ok) return response;
+
+    if (response?.status === 401 && !renewed && accessTokenRefresher) {
+      renewed = true;
+      try {
+        token = await renewAccessToken(token);
+      } catch (err: any) {
+        throw new AuthError(err?.message || `Failed to ${action}: session expired.`, 401);
+      }
+      attempt--; // A renewal is not a retry
+      continue;
     }
-  });
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error("API Error:", errorData);
-    throw new Error('Failed to fetch reviews. Ensure API is enabled in GCP.');
+    const error: GoogleApiError = response
+      ? await toGoogleApiError(response, action)
+      : new NetworkError(`Failed to ${action}: network request failed.`);
+
+    if (!isRetryable(error) || attempt >= MAX_RETRIES) throw error;
+    await sleep(retryDelay(attempt, response));
   }
+};
+
+/**
+ * Follows nextPageToken until the list is complete and returns the items under `key`
+ */
+const fetchAllPages = async <T>(accessToken: string, url: string, key: string, action: string): Promise<T[]> => {
+  const items: T[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const pageUrl = pageToken ? `${url}${url.includes('?') ? '&' : '?'}pageToken=${encodeURIComponent(pageToken)}` : url;
+    const response = await googleFetch(accessToken, pageUrl, action);
+    const data = await response.json();
+    items.push(...(data[key] || []));
+    pageToken = data.nextPageToken;
+  } while (pageToken);
+
+  return items;
+};
+
+/**
+ * 1. Fetch Accounts
+ * API: https://mybusinessaccountmanagement.googleapis.com/v1/accounts
+ */
+export const fetchAccounts = async (accessToken: string): Promise<{ accounts?: GoogleAccount[] }> => {
+  const accounts = await fetchAllPages<GoogleAccount>(accessToken, `${apiHosts.accountManagement}/v1/accounts?pageSize=20`, 'accounts', 'fetch accounts');
+  return { accounts };
+};
+
+/**
+ * 2. Fetch Locations for an Account
+ * API: https://mybusinessbusinessinformation.googleapis.com/v1/{accountId}/locations
+ * The API returns 10 locations per page by default, 100 at most.
+ */
+export const fetchLocations = async (accessToken: string, accountName: string): Promise<{ locations?: GoogleLocation[] }> => {
+  const url = `${apiHosts.businessInformation}/v1/${accountName}/locations?pageSize=100&readMask=name,title,storeCode,latlng,storefrontAddress`;
+  const locations = await fetchAllPages<GoogleLocation>(accessToken, url, 'locations', 'fetch locations');
+  return { locations };
+};
+
+/**
+ * The Business Information API names locations "locations/{id}", while the v4
+ * reviews API expects "accounts/{accountId}/locations/{id}".
+ */
+export const toLocationResourceName = (accountName: string, locationName: string) => {
+  return locationName.startsWith('accounts/') ? locationName : `${accountName}/${locationName}`;
+};
+
+/**
+ * Builds a connected profile for one or more locations of an account
+ */
+export const buildBusinessProfile = (accessToken: string, account: GoogleAccount, locations: GoogleLocation[]): BusinessProfile => {
+  const connected: ConnectedLocation[] = locations.map(location => ({
+    locationId: toLocationResourceName(account.name, location.name),
+    title: location.title || location.name
+  }));
 
-  const data = await response.json();
-  
-  if (!data.reviews) return [];
+  return {
+    name: connected.length > 1
+      ? (account.accountName || `${connected.length} locations`)
+      : (locations[0].title || "My Business"),
+    accountId: account.name,
+    locationId: connected[0].locationId,
+    locations: connected.length > 1 ? connected : undefined,
+    accessToken: accessToken,
+    isConnected: true
+  };
+};
 
-  return data.reviews.map((r: any) => ({
+/**
+ * Returns every location managed by a profile, including single-location profiles
+ */
+export const getConnectedLocations = (profile: BusinessProfile): ConnectedLocation[] => {
+  if (profile.locations && profile.locations.length > 0) return profile.locations;
+  return [{ locationId: profile.locationId, title: profile.name }];
+};
+
+/**
+ * The name customers know a location by. A multi-location profile is named after the account
+ * ("12 locations"), which must never reach a reply. Defaults to the primary location.
+ */
+export const businessNameFor = (profile: BusinessProfile, locationId?: string): string =>
+  profile.locations?.find(l => l.locationId === (locationId || profile.locationId))?.title || profile.name;
+
+/**
+ * Formats a storefront address into a single display line
+ */
+export const formatAddress = (address?: PostalAddress) => {
+  if (!address) return '';
+  return [
+    ...(address.addressLines || []),
+    address.locality,
+    address.administrativeArea,
+    address.postalCode
+  ].filter(Boolean).join(', ');
+};
+
+const STAR_RATINGS = ["ZERO", "ONE", "TWO", "THREE", "FOUR", "FIVE"];
+
+// Shown in place of the text of rating-only reviews
+export const NO_REVIEW_TEXT = "(No content)";
+
+export const hasReviewText = (content: string) => !!content.trim() && content !== NO_REVIEW_TEXT;
+
+const mapReview = (r: any, locationName: string): GoogleReview => {
+  const { original, translation } = splitGoogleTranslation(r.comment || '');
+
+  return {
     id: r.name, // Full resource name
     reviewId: r.reviewId,
+    locationId: locationName,
     reviewerName: r.reviewer.displayName,
     reviewerAvatar: r.reviewer.profilePhotoUrl,
-    rating: ["ZERO", "ONE", "TWO", "THREE", "FOUR", "FIVE"].indexOf(r.starRating),
-    content: r.comment || "(No content)",
+    rating: STAR_RATINGS.indexOf(r.starRating),
+    content: original || NO_REVIEW_TEXT,
+    googleTranslation: translation,
+    language: detectLanguage(original),
     date: new Date(r.createTime).toLocaleDateString(),
+    createTime: r.createTime,
+    updateTime: r.updateTime || r.createTime,
     status: r.reviewReply ? 'replied' : 'pending',
-    replyContent: r.reviewReply ? r.reviewReply.comment : undefined
-  }));
+    replyContent: r.reviewReply ? r.reviewReply.comment : undefined,
+    replyUpdateTime: r.reviewReply?.updateTime
+  };
+};
+
+/**
+ * 3. Fetch Reviews for a Location
+ * Note: Reviews API is still largely on v4 in some contexts, but let's try the v4 endpoint which is standard for reviews.
+ * API: https://mybusiness.googleapis.com/v4/{name}/reviews
+ *
+ * Pages through the whole history. With `since`, reviews are requested newest-updated first
+ * and paging stops at the first review that is older than the last sync.
+ */
+export const fetchGoogleReviews = async (
+  accessToken: string,
+  locationName: string,
+  options: FetchReviewsOptions = {}
+): Promise<ReviewSyncResult> => {
+  // locationName format: accounts/{accountId}/locations/{locationId}
+  const { pageSize = 50, since, onProgress } = options;
+  const syncedAt = new Date().toISOString();
+  const reviews: GoogleReview[] = [];
+  let averageRating: number | undefined;
+  let totalReviewCount: number | undefined;
+  let pageToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ pageSize: String(pageSize), orderBy: 'updateTime desc' });
+    if (pageToken) params.set('pageToken', pageToken);
+    const url = `${apiHosts.reviews}/v4/${locationName}/reviews?${params}`;
+
+    const response = await googleFetch(accessToken, url, 'fetch reviews');
+    const data = await response.json();
+    averageRating = data.averageRating ?? averageRating;
+    totalReviewCount = data.totalReviewCount ?? totalReviewCount;
+    pageToken = data.nextPageToken;
+
+    for (const r of data.reviews || []) {
+      const review = mapReview(r, locationName);
+      const replyUpdated = r.reviewReply?.updateTime;
+      const isNew = !since || review.updateTime > since || (replyUpdated && replyUpdated > since);
+      if (isNew) {
+        reviews.push(review);
+      } else if (review.updateTime <= since!) {
+        // Everything after this point was seen in a previous sync
+        pageToken = undefined;
+        break;
+      }
+    }
+
+    onProgress?.({ fetched: reviews.length, total: since ? undefined : totalReviewCount });
+  } while (pageToken);
+
+  return { reviews, averageRating, totalReviewCount, syncedAt };
+};
+
+/**
+ * Merges a sync result into locally known reviews.
+ * Local drafts are kept unless the review has since been replied to (possibly from
+ * another device or the Google UI), in which case the posted reply always wins.
+ * Draft history, the chosen reply language, cached translations and analysis are local only and always kept.
+ */
+export const mergeReviews = (existing: GoogleReview[], incoming: GoogleReview[]): GoogleReview[] => {
+  const incomingById = new Map(incoming.map(r => [r.id, r]));
+  const merged = existing.map(r => {
+    const fresh = incomingById.get(r.id);
+    if (!fresh) return r;
+    incomingById.delete(r.id);
+    const local = {
+      ...fresh,
+      draftHistory: r.draftHistory,
+      draftCursor: r.draftCursor,
+      replyLanguage: r.replyLanguage,
+      reviewTranslation: r.reviewTranslation,
+      draftTranslation: r.draftTranslation,
+      analysis: r.analysis,
+      autoReply: r.autoReply,
+      approvals: r.approvals,
+      comments: r.comments,
+      workflowUpdatedAt: r.workflowUpdatedAt,
+      draftVariants: r.draftVariants
+    };
+    // Draft and approval states only exist locally
+    if (r.status !== 'pending' && r.status !== 'replied' && fresh.status === 'pending') {
+      return { ...local, status: r.status, replyContent: r.replyContent };
+    }
+    return local;
+  });
+  return [...incomingById.values(), ...merged]
+    .sort((a, b) => b.createTime.localeCompare(a.createTime));
+};
+
+/**
+ * Fetches one review as Google has it now
+ * API: GET https://mybusiness.googleapis.com/v4/{name}
+ */
+export const fetchGoogleReview = async (accessToken: string, reviewName: string): Promise<GoogleReview> => {
+  const response = await googleFetch(accessToken, `${apiHosts.reviews}/v4/${reviewName}`, 'fetch the review');
+  return mapReview(await response.json(), reviewName.split('/reviews/')[0]);
 };
 
 /**
  * 4. Post Reply
+ * PUT replaces any existing reply, so this is also used to edit a posted reply. `knownReplyUpdateTime`
+ * is the reply the app last saw, if any: a reply posted, edited or deleted elsewhere since then fails
+ * with ConflictError instead of being overwritten.
  * API: PUT https://mybusiness.googleapis.com/v4/{name}/reply
  */
-export const postReplyToGoogle = async (accessToken: string, reviewName: string, reply: string): Promise<boolean> => {
-  const url = `https://mybusiness.googleapis.com/v4/${reviewName}/reply`;
-  
-  const response = await fetch(url, {
+export const postReplyToGoogle = async (
+  accessToken: string,
+  reviewName: string,
+  reply: string,
+  knownReplyUpdateTime?: string
+): Promise<ReviewReply> => {
+  const current = await fetchGoogleReview(accessToken, reviewName);
+  if (current.replyUpdateTime !== knownReplyUpdateTime) {
+    throw new ConflictError("The reply to this review was changed outside the app since the last sync. It is shown now; post again to replace it.");
+  }
+
+  const url = `${apiHosts.reviews}/v4/${reviewName}/reply`;
+  const response = await googleFetch(accessToken, url, 'post reply', {
     method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
-    },
     body: JSON.stringify({
       comment: reply
     })
   });
 
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error("Reply Error:", errorData);
-    throw new Error('Failed to post reply.');
-  }
+  const data = await response.json().catch(() => ({}));
+  return {
+    comment: data.comment ?? reply,
+    updateTime: data.updateTime || new Date().toISOString()
+  };
+};
 
-  return true;
+/**
+ * 5. Delete Reply
+ * API: DELETE https://mybusiness.googleapis.com/v4/{name}/reply
+ */
+export const deleteReplyFromGoogle = async (accessToken: string, reviewName: string): Promise<void> => {
+  const url = `${apiHosts.reviews}/v4/${reviewName}/reply`;
+
+  await googleFetch(accessToken, url, 'delete reply', {
+    method: 'DELETE'
+  });
 };
\ No newline at end of file
@@ -0,0 +1,4 @@
+/**
+ * Short random id for locally created records: templates, rules, team members
+ */
+export const createId = () => Math.random().toString(36).slice(2, 10);
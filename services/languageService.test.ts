@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { detectLanguage, splitGoogleTranslation } from './languageService';
+
+describe('detectLanguage', () => {
+  it('recognises languages by their script', () => {
+    expect(detectLanguage('とても美味しかったです')).toBe(Language.Japanese);
+    expect(detectLanguage('정말 맛있어요')).toBe(Language.Korean);
+    expect(detectLanguage('非常好吃')).toBe(Language.Chinese);
+  });
+
+  it('recognises Vietnamese by its letters', () => {
+    expect(detectLanguage('Phở rất ngon, phục vụ nhanh')).toBe(Language.Vietnamese);
+  });
+
+  it('tells Latin-script languages apart by common words', () => {
+    expect(detectLanguage('The food was great and the staff were very friendly')).toBe(Language.English);
+    expect(detectLanguage('Le service est très rapide et la soupe est excellente')).toBe(Language.French);
+    expect(detectLanguage('Das Essen ist sehr gut und die Bedienung auch')).toBe(Language.German);
+  });
+
+  it('gives no answer for empty, short or ambiguous text', () => {
+    expect(detectLanguage('')).toBeUndefined();
+    expect(detectLanguage('👍👍')).toBeUndefined();
+    expect(detectLanguage('Phở a')).toBeUndefined();
+    expect(detectLanguage('Pho bo')).toBeUndefined();
+  });
+});
+
+describe('splitGoogleTranslation', () => {
+  it('keeps text without a translation as it is', () => {
+    expect(splitGoogleTranslation('Great food')).toEqual({ original: 'Great food' });
+  });
+
+  it('splits both layouts Google uses', () => {
+    expect(splitGoogleTranslation('(Translated by Google) Very tasty\n\n(Original)\nRất ngon')).toEqual({
+      original: 'Rất ngon',
+      translation: 'Very tasty'
+    });
+    expect(splitGoogleTranslation('Rất ngon\n\n(Translated by Google)\nVery tasty')).toEqual({
+      original: 'Rất ngon',
+      translation: 'Very tasty'
+    });
+  });
+});
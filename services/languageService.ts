@@ -0,0 +1,99 @@
+import { Language } from '../types';
+
+const TRANSLATED_MARKER = '(Translated by Google)';
+const ORIGINAL_MARKER = '(Original)';
+
+/**
+ * Separates the reviewer's own words from the machine translation Google
+ * appends to reviews. Google uses two layouts:
+ *
+ *   "(Translated by Google) <translation>\n\n(Original)\n<original>"
+ *   "<original>\n\n(Translated by Google)\n<translation>"
+ */
+export const splitGoogleTranslation = (text: string): { original: string; translation?: string } => {
+  const translatedAt = text.indexOf(TRANSLATED_MARKER);
+  if (translatedAt === -1) return { original: text };
+
+  const originalAt = text.indexOf(ORIGINAL_MARKER);
+  if (originalAt > translatedAt) {
+    return {
+      original: text.slice(originalAt + ORIGINAL_MARKER.length).trim(),
+      translation: text.slice(translatedAt + TRANSLATED_MARKER.length, originalAt).trim() || undefined
+    };
+  }
+
+  return {
+    original: text.slice(0, translatedAt).trim(),
+    translation: text.slice(translatedAt + TRANSLATED_MARKER.length).trim() || undefined
+  };
+};
+
+// Languages recognised by their script alone
+const SCRIPTS: [RegExp, Language][] = [
+  [/[가-힯ᄀ-ᇿ]/g, Language.Korean],
+  [/[぀-ヿ]/g, Language.Japanese],
+  [/[฀-๿]/g, Language.Thai],
+  [/[؀-ۿ]/g, Language.Arabic],
+  [/[ऀ-ॿ]/g, Language.Hindi],
+  [/[֐-׿]/g, Language.Hebrew],
+  [/[Ͱ-Ͽ]/g, Language.Greek],
+  [/[Ѐ-ӿ]/g, Language.Russian]
+];
+
+// Letters only Vietnamese uses among Latin-script languages
+const VIETNAMESE_LETTERS = /[ăđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/gi;
+
+// Frequent short words, enough to tell Latin-script languages apart in a review-sized text.
+// No one-letter words: "a", "e", "i", "o" and "y" occur in too many languages to tell anything.
+const STOPWORDS: Partial<Record<Language, string[]>> = {
+  [Language.English]: ['the', 'and', 'was', 'is', 'to', 'for', 'with', 'very', 'we', 'but', 'not', 'this', 'it', 'of', 'great', 'good', 'were', 'our', 'you', 'my', 'at', 'so', 'had'],
+  [Language.French]: ['le', 'la', 'les', 'et', 'est', 'très', 'un', 'une', 'des', 'pas', 'pour', 'avec', 'nous', 'du'],
+  [Language.German]: ['der', 'die', 'das', 'und', 'ist', 'sehr', 'nicht', 'ein', 'eine', 'wir', 'mit', 'auch', 'für', 'zu'],
+  [Language.Spanish]: ['el', 'la', 'los', 'las', 'es', 'muy', 'que', 'con', 'por', 'para', 'una', 'pero', 'del'],
+  [Language.Italian]: ['il', 'di', 'molto', 'che', 'con', 'per', 'non', 'sono', 'gli', 'ottimo', 'buono', 'buonissimo', 'torneremo', 'grazie'],
+  [Language.Portuguese]: ['os', 'muito', 'que', 'com', 'para', 'não', 'uma', 'um', 'do', 'da', 'foi', 'bom', 'também'],
+  [Language.Dutch]: ['de', 'het', 'een', 'en', 'is', 'zeer', 'heel', 'niet', 'met', 'voor', 'wij', 'ook', 'van', 'lekker'],
+  [Language.Indonesian]: ['dan', 'yang', 'sangat', 'di', 'ini', 'tidak', 'untuk', 'enak', 'dengan', 'ada', 'saya', 'tempat'],
+  [Language.Turkish]: ['ve', 'bir', 'çok', 'bu', 'için', 'ile', 'güzel', 'değil', 'da', 'de', 'ama', 'gibi'],
+  [Language.Polish]: ['nie', 'jest', 'się', 'bardzo', 'na', 'to', 'że', 'do', 'jak', 'było', 'ale', 'są'],
+  [Language.Swedish]: ['och', 'är', 'det', 'att', 'en', 'som', 'mycket', 'med', 'för', 'inte', 'på', 'vi']
+};
+
+const MIN_STOPWORD_SCORE = 2;
+
+/**
+ * Best guess at the language of a review, or undefined for empty or ambiguous text.
+ * Runs locally so every synced review can be tagged without model calls.
+ */
+export const detectLanguage = (text: string): Language | undefined => {
+  const letters = text.replace(/[\s\d\p{P}\p{S}]/gu, '');
+  if (letters.length < 2) return undefined;
+
+  for (const [pattern, language] of SCRIPTS) {
+    if ((text.match(pattern) || []).length / letters.length > 0.2) return language;
+  }
+
+  // Han characters without kana
+  const han = (text.match(/[一-鿿]/g) || []).length;
+  if (han / letters.length > 0.2) return Language.Chinese;
+
+  if ((text.match(VIETNAMESE_LETTERS) || []).length >= 2) return Language.Vietnamese;
+
+  // A single matching word, or a tie between languages, is too weak to go on
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  let best: Language | undefined;
+  let bestScore = 0;
+  let tied = false;
+  for (const language of Object.keys(STOPWORDS) as Language[]) {
+    const stopwords = STOPWORDS[language]!;
+    const score = words.filter(w => stopwords.includes(w)).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && score > 0) {
+      tied = true;
+    }
+  }
+  return bestScore >= MIN_STOPWORD_SCORE && !tied ? best : undefined;
+};
@@ -0,0 +1,201 @@
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { LlmConfig, LlmProviderType, LlmRequestContext } from '../types';
+import { AuthError, NetworkError, PermissionError, QuotaError, ServerError, ValidationError } from './googleApiErrors';
+import { renewAccessToken } from './googleBusinessService';
+
+/**
+ * A text generation backend. Providers map their own rate-limit and server
+ * failures to QuotaError / ServerError so callers can retry them uniformly.
+ */
+export interface LlmProvider {
+  generate: (prompt: string, config: LlmConfig, context: LlmRequestContext) => Promise<string>;
+}
+
+// Served by server/aiProxy.ts, which holds the app's Gemini key
+const AI_PROXY_PREFIX = '/api/ai';
+
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  settings: {
+    temperature: 0.7, // Balance between creativity and professionalism
+    topK: 40,
+    topP: 0.95,
+  }
+};
+
+// Sensible starting points when switching provider in the settings UI
+export const PROVIDER_DEFAULTS: Record<LlmProviderType, Pick<LlmConfig, 'model' | 'baseUrl'>> = {
+  'gemini': { model: 'gemini-2.5-flash' },
+  'openai-compatible': { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+  'local': { model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+  'fake': { model: 'fake-1' }
+};
+
+/**
+ * Gemini through the app's server-side proxy. A 401 renews the Google token once and replays.
+ */
+const callAiProxy = async (prompt: string, config: LlmConfig, context: LlmRequestContext): Promise<string> => {
+  let token = context.accessToken || '';
+
+  for (let renewed = false; ; renewed = true) {
+    let response: Response;
+    try {
+      response = await fetch(`${AI_PROXY_PREFIX}/${context.feature}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ prompt, model: config.model, settings: config.settings })
+      });
+    } catch (err) {
+      throw new NetworkError("Could not reach the app server for AI generation.");
+    }
+
+    if (response.ok) {
+      const data = await response.json();
+      return data.text || '';
+    }
+
+    const payload = await response.json().catch(() => undefined);
+    const message = payload?.error?.message || `AI request failed (${response.status}).`;
+
+    if (response.status === 401 && !renewed && token) {
+      try {
+        token = await renewAccessToken(token);
+      } catch {
+        throw new AuthError(message, 401, payload);
+      }
+      continue;
+    }
+
+    if (response.status === 401) throw new AuthError(message, 401, payload);
+    if (response.status === 400) throw new ValidationError(message, 400, payload);
+    if (response.status === 403) throw new PermissionError(message, 403, payload);
+    if (response.status === 429) throw new QuotaError(message, 429, payload);
+    if (response.status >= 500) throw new ServerError(message, response.status, payload);
+    throw new Error(message);
+  }
+};
+
+/**
+ * Gemini through the official SDK when the business brings its own key. Clients are cached per key.
+ */
+const geminiClients = new Map<string, GoogleGenAI>();
+
+const geminiProvider: LlmProvider = {
+  generate: async (prompt, config, context) => {
+    // Without a key of its own the business uses the app key, which never leaves the server
+    if (!config.apiKey) return callAiProxy(prompt, config, context);
+
+    const apiKey = config.apiKey;
+    if (!geminiClients.has(apiKey)) {
+      geminiClients.set(apiKey, new GoogleGenAI({ apiKey }));
+    }
+
+    try {
+      const response = await geminiClients.get(apiKey)!.models.generateContent({
+        model: config.model,
+        contents: prompt,
+        config: {
+          temperature: config.settings.temperature,
+          topK: config.settings.topK,
+          topP: config.settings.topP,
+          maxOutputTokens: config.settings.maxOutputTokens,
+        }
+      });
+      return response.text || '';
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 429) {
+        throw new QuotaError("Gemini rate limit reached. Please wait a moment and try again.", 429);
+      }
+      if (error instanceof ApiError && error.status >= 500) {
+        throw new ServerError("Gemini is temporarily unavailable. Please try again.", error.status);
+      }
+      throw error;
+    }
+  }
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API, including
+ * Ollama and llama.cpp (`llama-server`) when run locally.
+ */
+const openAiCompatibleProvider: LlmProvider = {
+  generate: async (prompt, config) => {
+    const baseUrl = (config.baseUrl || PROVIDER_DEFAULTS[config.provider].baseUrl || '').replace(/\/+$/, '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: config.settings.temperature,
+          top_p: config.settings.topP,
+          max_tokens: config.settings.maxOutputTokens,
+        })
+      });
+    } catch (err) {
+      throw new NetworkError(`Could not reach the model server at ${baseUrl}. Is it running and does it allow this origin (CORS)?`);
+    }
+
+    if (response.status === 429) throw new QuotaError("The model provider's rate limit was reached.", 429);
+    if (response.status >= 500) throw new ServerError("The model server returned an error.", response.status);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => undefined);
+      console.error("Model Error:", errorData);
+      throw new Error(errorData?.error?.message || `Model request failed (${response.status}).`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+};
+
+const FAKE_REPLIES = [
+  "Thank you so much for taking the time to share your experience with us. We look forward to welcoming you back soon!",
+  "We really appreciate your feedback. Our team will look into this right away, please reach out to us so we can make it right.",
+  "Thanks for your review! It's great to hear from you and we hope to see you again."
+];
+
+// Valid for analyzeReview, so analysis also works offline
+const FAKE_ANALYSIS = JSON.stringify({ sentiment: 'neutral', topics: [{ topic: 'service', sentiment: 'neutral' }], urgency: 'low', staffNames: [] });
+
+/**
+ * Deterministic offline provider: the same prompt always yields the same reply.
+ */
+const fakeProvider: LlmProvider = {
+  generate: async (prompt, config, context) => {
+    if (context.feature === 'analyze') return FAKE_ANALYSIS;
+
+    let hash = 0;
+    for (let i = 0; i < prompt.length; i++) {
+      hash = (hash * 31 + prompt.charCodeAt(i)) | 0;
+    }
+    return FAKE_REPLIES[Math.abs(hash) % FAKE_REPLIES.length];
+  }
+};
+
+const PROVIDERS: Record<LlmProviderType, LlmProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  'local': openAiCompatibleProvider,
+  'fake': fakeProvider
+};
+
+export const getLlmProvider = (type: LlmProviderType): LlmProvider => PROVIDERS[type] || geminiProvider;
+
+/**
+ * Fills in any missing fields of a saved config with the defaults
+ */
+export const resolveLlmConfig = (config?: LlmConfig): LlmConfig => ({
+  ...DEFAULT_LLM_CONFIG,
+  ...config,
+  settings: { ...DEFAULT_LLM_CONFIG.settings, ...config?.settings }
+});
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PostQueueItem } from '../types';
+import { createPostQueue } from './postQueue';
+
+describe('createPostQueue', () => {
+  let updates: PostQueueItem[][];
+  const latest = () => updates[updates.length - 1];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    updates = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('posts a reply once the undo window has passed', async () => {
+    const post = vi.fn().mockResolvedValue(undefined);
+    const queue = createPostQueue({ undoWindowMs: 1000, post, onUpdate: items => updates.push(items) });
+
+    queue.enqueue([{ reviewId: 'r1', content: 'Thanks!' }]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(post).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(post).toHaveBeenCalledWith(expect.objectContaining({ reviewId: 'r1', content: 'Thanks!' }));
+    expect(latest()[0].status).toBe('posted');
+  });
+
+  it('never posts a reply undone within the window', async () => {
+    const post = vi.fn().mockResolvedValue(undefined);
+    const queue = createPostQueue({ undoWindowMs: 1000, post, onUpdate: items => updates.push(items) });
+
+    queue.enqueue([{ reviewId: 'r1', content: 'Thanks!' }]);
+    queue.undo('r1');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(post).not.toHaveBeenCalled();
+    expect(latest()).toEqual([]);
+  });
+
+  it('keeps a failed post and retries it with the edited text', async () => {
+    const post = vi.fn()
+      .mockRejectedValueOnce(new Error('Network down'))
+      .mockResolvedValueOnce(undefined);
+    const queue = createPostQueue({ undoWindowMs: 0, post, onUpdate: items => updates.push(items) });
+
+    queue.enqueue([{ reviewId: 'r1', content: 'Old text' }]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(latest()[0]).toMatchObject({ status: 'failed', error: 'Network down' });
+
+    queue.retry('r1', 'New text');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenLastCalledWith(expect.objectContaining({ content: 'New text' }));
+    expect(latest()[0].status).toBe('posted');
+  });
+
+  it('does not undo or re-queue a reply that is already being posted', async () => {
+    let finish: () => void = () => {};
+    const post = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const queue = createPostQueue({ undoWindowMs: 0, post, onUpdate: items => updates.push(items) });
+
+    queue.enqueue([{ reviewId: 'r1', content: 'Thanks!' }]);
+    await vi.advanceTimersByTimeAsync(0);
+    queue.undo('r1');
+    queue.enqueue([{ reviewId: 'r1', content: 'Other text' }]);
+    expect(latest()).toEqual([expect.objectContaining({ status: 'posting', content: 'Thanks!' })]);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { PostQueueItem } from "../types";
+import { getErrorMessage } from "./googleApiErrors";
+
+interface PostQueueOptions {
+  undoWindowMs: number;
+  post: (item: PostQueueItem) => Promise<void>;
+  onUpdate: (items: PostQueueItem[]) => void;
+  initialItems?: PostQueueItem[];
+}
+
+export interface PostQueue {
+  enqueue: (entries: { reviewId: string; content: string }[]) => void;
+  undo: (reviewId: string) => void;
+  retry: (reviewId: string, content?: string) => void; // `content` replaces the text if the draft was edited since
+  remove: (reviewId: string) => void;
+  clearPosted: () => void;
+  setUndoWindow: (ms: number) => void;
+  dispose: () => void;
+}
+
+/**
+ * Outgoing replies wait out an undo window before they are posted.
+ * Failed posts stay in the queue until they are retried or removed.
+ */
+export const createPostQueue = ({ undoWindowMs, post, onUpdate, initialItems = [] }: PostQueueOptions): PostQueue => {
+  let items = initialItems;
+  let undoWindow = undoWindowMs;
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const emit = () => onUpdate(items);
+
+  const setItem = (reviewId: string, changes: Partial<PostQueueItem>) => {
+    items = items.map(item => item.reviewId === reviewId ? { ...item, ...changes } : item);
+    emit();
+  };
+
+  const clearTimer = (reviewId: string) => {
+    const timer = timers.get(reviewId);
+    if (timer) clearTimeout(timer);
+    timers.delete(reviewId);
+  };
+
+  const send = async (reviewId: string) => {
+    clearTimer(reviewId);
+    const item = items.find(i => i.reviewId === reviewId);
+    if (!item || item.status === 'posting' || item.status === 'posted') return;
+
+    setItem(reviewId, { status: 'posting', error: undefined });
+    try {
+      await post(item);
+      setItem(reviewId, { status: 'posted' });
+    } catch (e) {
+      console.error(e);
+      setItem(reviewId, { status: 'failed', error: getErrorMessage(e) });
+    }
+  };
+
+  const schedule = (item: PostQueueItem) => {
+    clearTimer(item.reviewId);
+    timers.set(item.reviewId, setTimeout(() => send(item.reviewId), Math.max(item.sendAt - Date.now(), 0)));
+  };
+
+  items.filter(item => item.status === 'waiting').forEach(schedule);
+
+  return {
+    enqueue: (entries) => {
+      const sendAt = Date.now() + undoWindow;
+      const added: PostQueueItem[] = entries.map(({ reviewId, content }) => ({ reviewId, content, status: 'waiting', sendAt }));
+      const ids = new Set(added.map(item => item.reviewId));
+      // A review already being posted keeps its place
+      const busy = new Set(items.filter(i => i.status === 'posting' && ids.has(i.reviewId)).map(i => i.reviewId));
+      const accepted = added.filter(item => !busy.has(item.reviewId));
+      items = [...items.filter(i => !ids.has(i.reviewId) || busy.has(i.reviewId)), ...accepted];
+      accepted.forEach(schedule);
+      emit();
+    },
+    undo: (reviewId) => {
+      const item = items.find(i => i.reviewId === reviewId);
+      if (!item || item.status !== 'waiting') return;
+      clearTimer(reviewId);
+      items = items.filter(i => i.reviewId !== reviewId);
+      emit();
+    },
+    retry: (reviewId, content) => {
+      const item = items.find(i => i.reviewId === reviewId);
+      if (!item || item.status !== 'failed') return;
+      if (content !== undefined && content !== item.content) setItem(reviewId, { content });
+      send(reviewId);
+    },
+    remove: (reviewId) => {
+      const item = items.find(i => i.reviewId === reviewId);
+      if (!item || item.status === 'posting') return;
+      clearTimer(reviewId);
+      items = items.filter(i => i.reviewId !== reviewId);
+      emit();
+    },
+    clearPosted: () => {
+      items = items.filter(i => i.status !== 'posted');
+      emit();
+    },
+    setUndoWindow: (ms) => {
+      undoWindow = ms;
+    },
+    dispose: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    }
+  };
+};
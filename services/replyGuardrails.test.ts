@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessProfile, Language } from '../types';
+import { GuardrailContext, checkReply, hasBlockingFindings } from './replyGuardrails';
+
+const businessProfile = {
+  name: 'Phở Hà Nội',
+  accountId: 'accounts/1',
+  locationId: 'accounts/1/locations/1',
+  accessToken: 'token',
+  knowledgeBase: {
+    'accounts/1/locations/1': { contactChannels: 'Hotline 0901 234 567, hello@pho.vn' }
+  }
+} as unknown as BusinessProfile;
+
+const context = (overrides: Partial<GuardrailContext['review']> = {}, language?: Language): GuardrailContext => ({
+  businessProfile,
+  review: { reviewerName: 'Minh Anh', rating: 5, content: 'Phở rất ngon!', ...overrides },
+  language
+});
+
+const checksOf = (reply: string, ctx = context()) => checkReply(reply, ctx).map(f => f.check);
+
+describe('checkReply', () => {
+  it('passes a plain reply', () => {
+    expect(checkReply('Cảm ơn bạn đã ghé quán, hẹn gặp lại!', context())).toEqual([]);
+  });
+
+  it('blocks empty replies and unfilled placeholders', () => {
+    expect(hasBlockingFindings(checkReply('  ', context()))).toBe(true);
+    expect(checksOf('Call us at [Phone Number].')).toContain('placeholder');
+  });
+
+  it('allows contact details from the knowledge base', () => {
+    expect(checksOf('Gọi 0901234567 hoặc viết cho hello@pho.vn nhé.')).toEqual([]);
+  });
+
+  it('blocks contact details that are not in the knowledge base', () => {
+    expect(checksOf('Gọi +84 28 3823 4567 nhé.')).toContain('contact_details');
+    expect(checksOf('Viết cho manager@pho.vn nhé.')).toContain('contact_details');
+    expect(checksOf('Xem www.pho-khac.vn nhé.')).toContain('contact_details');
+  });
+
+  it('does not take dates, prices or plain digit runs for phone numbers', () => {
+    expect(checksOf('Hẹn gặp lại từ 12.05.2024, combo chỉ 15.000.000 đồng.')).toEqual([]);
+    expect(checksOf('Đơn hàng 20240512 đã được hoàn tiền.')).toEqual([]);
+    expect(checksOf('Chúng tôi ở số 123 456 789 đường Láng.')).toEqual([]);
+  });
+
+  it("flags the reviewer's own contact details repeated in the reply", () => {
+    const findings = checkReply('Chúng tôi sẽ gọi lại số 0987 654 321.', context({ content: 'Gọi tôi: 0987 654 321' }));
+    expect(findings).toEqual([expect.objectContaining({ check: 'personal_data', severity: 'error' })]);
+  });
+
+  it('warns about the full name but not the first name', () => {
+    expect(checkReply('Cảm ơn Minh Anh!', context())).toEqual([
+      expect.objectContaining({ check: 'personal_data', severity: 'warning' })
+    ]);
+    expect(checkReply('Cảm ơn Anh!', context())).toEqual([]);
+  });
+
+  it('blocks admissions of liability only on low ratings', () => {
+    const reply = 'We take full responsibility for your illness.';
+    expect(checksOf(reply, context({ rating: 1 }))).toContain('liability');
+    expect(checksOf(reply, context({ rating: 4 }))).not.toContain('liability');
+  });
+
+  it('only warns when the reply is in another language', () => {
+    const findings = checkReply('Thank you so much, we were very happy to have you with us!', context({}, Language.Vietnamese));
+    expect(findings).toEqual([expect.objectContaining({ check: 'language', severity: 'warning' })]);
+    expect(hasBlockingFindings(findings)).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { BusinessProfile, GuardrailFinding, Language, ReviewData } from '../types';
+import { detectLanguage } from './languageService';
+import { businessNameFor } from './googleBusinessService';
+
+// Google rejects longer replies
+export const GOOGLE_REPLY_MAX_BYTES = 4096;
+
+// Liability is only checked on replies to 1-2 star reviews
+const LIABILITY_MAX_RATING = 2;
+
+export interface GuardrailContext {
+  businessProfile: BusinessProfile;
+  review: ReviewData;
+  locationId?: string;
+  language?: Language; // Language the reply should be in
+}
+
+// Bracketed labels the model fills in when it lacks a fact, and unfilled template variables
+const PLACEHOLDER_PATTERNS = [
+  /\[[^\]\n]{2,40}\]/,
+  /\{\w+\}/,
+  /<[A-Za-z][A-Za-z ]{1,30}>/,
+  /\bX{3,}\b|_{3,}/,
+  /\b(TODO|TBD|INSERT)\b/
+];
+
+const LIABILITY_PATTERNS = [
+  /\b(it|this|that)\s+(was|is|'s)\s+(entirely\s+|completely\s+|all\s+)?our\s+fault\b/i,
+  /\bwe\s+(are|were|'re)\s+(fully\s+|legally\s+)?liable\b/i,
+  /\bwe\s+(take|accept)\s+(full\s+)?(legal\s+)?(responsibility|liability)\s+for\s+(your|the)\s+(injury|illness|damage|loss|sickness)/i,
+  /\b(our|staff)\s+negligence\b|\bwe\s+(were|have been)\s+negligent\b/i,
+  /\bwe\s+admit\b/i,
+  /\bcaused\s+(your|the)\s+(food\s+poisoning|illness|injury)\b/i,
+  /lỗi\s+(hoàn\s+toàn\s+)?(là\s+)?của\s+chúng\s+tôi/i,
+  /chúng\s+tôi\s+(xin\s+)?(hoàn\s+toàn\s+)?chịu\s+(hoàn\s+toàn\s+)?trách\s+nhiệm/i,
+  /chúng\s+tôi\s+(đã\s+)?(sơ\s+suất|tắc\s+trách)/i
+];
+
+// Numbers written the way phones are: international (+84 28 3823 4567), national with the
+// trunk 0 (0901 234 567, 0909.888.777, 0901234567), 1800/1900 hotlines and (555) 123-4567.
+// Plain digit runs such as order numbers and address digits are not phone numbers.
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{1,3}(?:[\s.-]?\(?\d{1,4}\)?){2,5}|\(?0\d{1,4}\)?(?:[\s.-]\d{2,4}){1,4}|0\d{9,10}|1[89]00[\s.-]?\d{3,4}(?:[\s.-]?\d{3})?|\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4})(?!\d)/g;
+// Dates (12.05.2024, 05/12/24, 2024-05-12) and prices grouped in thousands with a currency (15.000.000 đồng, $1,200)
+// look like phone numbers, so they are taken out first
+const DATE_PATTERN = /(?<!\d)(?:(?:0?[1-9]|[12]\d|3[01])[./-](?:0?[1-9]|[12]\d|3[01])[./-](?:\d{4}|\d{2})|\d{4}[./-](?:0?[1-9]|1[0-2])[./-](?:0?[1-9]|[12]\d|3[01]))(?!\d)/g;
+const AMOUNT_PATTERN = /(?<!\d)(?:(?:[$€£]|vnđ|vnd|usd)\s*\d{1,3}(?:[.,\s]\d{3})+(?:[.,]\d+)?|\d{1,3}(?:[.,\s]\d{3})+(?:[.,]\d+)?\s*(?:đồng|vnđ|vnd|usd|eur|đ|[$€£])(?!\p{L}))/giu;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s)\]]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|vn|io|co|info|biz)\b(?:\/[^\s)\]]*)?/gi;
+
+type ContactKind = 'phone number' | 'email' | 'link';
+
+interface Contact {
+  kind: ContactKind;
+  text: string; // As written
+  key: string; // Normalized for comparison
+}
+
+const normalizeLink = (link: string) =>
+  link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/[/.,!?]+$/, '');
+
+/**
+ * Phone numbers, emails and links in a text. Numbers shorter than 8 digits, dates and prices are ignored.
+ */
+const extractContacts = (text: string): Contact[] => {
+  const emails = (text.match(EMAIL_PATTERN) || []).map(e => ({ kind: 'email' as const, text: e, key: e.toLowerCase() }));
+  // Email domains would otherwise also count as links
+  const withoutEmails = text.replace(EMAIL_PATTERN, ' ');
+  const links = (withoutEmails.match(URL_PATTERN) || []).map(l => ({ kind: 'link' as const, text: l, key: normalizeLink(l) }));
+  const numbers = withoutEmails.replace(URL_PATTERN, ' ').replace(DATE_PATTERN, ' ').replace(AMOUNT_PATTERN, ' ');
+  const phones = (numbers.match(PHONE_PATTERN) || [])
+    .map(p => ({ kind: 'phone number' as const, text: p.trim(), key: p.replace(/\D/g, '') }))
+    .filter(p => p.key.length >= 8);
+  return [...emails, ...links, ...phones];
+};
+
+/**
+ * Text the reply may take contact details from: the location's knowledge base and the signature
+ */
+const allowedContactText = ({ businessProfile, locationId }: GuardrailContext) => {
+  const kb = businessProfile.knowledgeBase?.[locationId || businessProfile.locationId];
+  return [
+    kb?.contactChannels, kb?.hours, kb?.policies, ...(kb?.staff || []), ...(kb?.signatureItems || []),
+    businessProfile.signature, businessNameFor(businessProfile, locationId)
+  ].filter(Boolean).join('\n');
+};
+
+const checkContacts = (reply: string, context: GuardrailContext): GuardrailFinding[] => {
+  const fromReview = new Set(extractContacts(context.review.content).map(c => c.key));
+  const allowed = new Set(extractContacts(allowedContactText(context)).map(c => c.key));
+  const findings: GuardrailFinding[] = [];
+
+  for (const contact of extractContacts(reply)) {
+    if (fromReview.has(contact.key) && !allowed.has(contact.key)) {
+      findings.push({ check: 'personal_data', severity: 'error', message: `Repeats the reviewer's ${contact.kind} "${contact.text}".` });
+    } else if (!allowed.has(contact.key)) {
+      findings.push({
+        check: 'contact_details',
+        severity: 'error',
+        message: `The ${contact.kind} "${contact.text}" isn't in the knowledge base for this location and may be made up.`
+      });
+    }
+  }
+
+  // Addressing someone by first name is normal; their full name in a public reply is not
+  const name = context.review.reviewerName.trim();
+  if (name.split(/\s+/).length >= 2 && reply.toLowerCase().includes(name.toLowerCase())) {
+    findings.push({ check: 'personal_data', severity: 'warning', message: `Uses the reviewer's full name "${name}".` });
+  }
+  return findings;
+};
+
+/**
+ * Checks a reply before it is posted. Findings are ordered errors first.
+ */
+export const checkReply = (reply: string, context: GuardrailContext): GuardrailFinding[] => {
+  const findings: GuardrailFinding[] = [];
+  const text = reply.trim();
+
+  if (!text) {
+    return [{ check: 'length', severity: 'error', message: "The reply is empty." }];
+  }
+  const bytes = new TextEncoder().encode(text).length;
+  if (bytes > GOOGLE_REPLY_MAX_BYTES) {
+    findings.push({
+      check: 'length',
+      severity: 'error',
+      message: `Too long for Google: ${bytes} bytes, the limit is ${GOOGLE_REPLY_MAX_BYTES}. Non-Latin characters take 2-4 bytes each.`
+    });
+  }
+
+  for (const pattern of PLACEHOLDER_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      findings.push({ check: 'placeholder', severity: 'error', message: `Contains the placeholder "${match[0]}".` });
+      break;
+    }
+  }
+
+  for (const phrase of context.businessProfile.bannedPhrases || []) {
+    if (phrase.trim() && text.toLowerCase().includes(phrase.trim().toLowerCase())) {
+      findings.push({ check: 'banned_phrase', severity: 'error', message: `Contains the banned phrase "${phrase.trim()}".` });
+    }
+  }
+
+  if (context.review.rating <= LIABILITY_MAX_RATING) {
+    const match = LIABILITY_PATTERNS.map(p => text.match(p)).find(Boolean);
+    if (match) {
+      findings.push({
+        check: 'liability',
+        severity: 'error',
+        message: `"${match[0]}" reads as an admission of liability. Apologize without accepting fault.`
+      });
+    }
+  }
+
+  findings.push(...checkContacts(text, context));
+
+  // Detection is a heuristic, so a mismatch is only a warning
+  const detected = detectLanguage(text);
+  if (context.language && detected && detected !== context.language) {
+    findings.push({ check: 'language', severity: 'warning', message: `Looks like ${detected}, but the reply language is ${context.language}.` });
+  }
+
+  return findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+export const hasBlockingFindings = (findings: GuardrailFinding[]) => findings.some(f => f.severity === 'error');
+
+/**
+ * One line describing why a reply can't be posted, for error banners
+ */
+export const describeBlockingFindings = (findings: GuardrailFinding[]) =>
+  `Not posted: ${findings.filter(f => f.severity === 'error').map(f => f.message).join(' ')}`;
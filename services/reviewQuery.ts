@@ -0,0 +1,91 @@
+import { GoogleReview, ReviewFilterPreset, ReviewQuery, ReviewSortKey, ReviewStatus, Urgency } from '../types';
+import { hasReviewText } from './googleBusinessService';
+import { filterReviews } from './analyticsService';
+
+export const DEFAULT_REVIEW_QUERY: ReviewQuery = { sort: 'newest' };
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'drafted', 'in_review', 'needs_changes', 'approved', 'rejected', 'replied'];
+
+export const SORT_LABELS: Record<ReviewSortKey, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  rating_low: 'Lowest rating',
+  rating_high: 'Highest rating',
+  urgency: 'Most urgent'
+};
+
+const PRESETS_KEY = 'reviewFilterPresets';
+
+// Unanalyzed reviews sort after analyzed low-urgency ones
+const URGENCY_RANK: Record<Urgency, number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Lowercases and strips diacritics so "pho" finds "phở" and "cafe" finds "café"
+ */
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd');
+
+const searchableText = (review: GoogleReview) =>
+  normalize([review.content, review.googleTranslation, review.replyContent].filter(Boolean).join('\n'));
+
+const matchesSearch = (review: GoogleReview, search: string) => {
+  const text = searchableText(review);
+  // Every word has to appear somewhere, in any order
+  return normalize(search).split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+export const isQueryFiltered = (query: ReviewQuery) =>
+  Boolean(
+    query.search?.trim() || query.ratings?.length || query.statuses?.length || query.from || query.to ||
+    query.hasText !== undefined || query.reviewer?.trim() || query.sentiment || query.topic
+  );
+
+const compareReviews = (sort: ReviewSortKey) => (a: GoogleReview, b: GoogleReview): number => {
+  const newestFirst = b.createTime.localeCompare(a.createTime);
+  switch (sort) {
+    case 'oldest':
+      return -newestFirst;
+    case 'rating_low':
+      return a.rating - b.rating || newestFirst;
+    case 'rating_high':
+      return b.rating - a.rating || newestFirst;
+    case 'urgency': {
+      const rank = (r: GoogleReview) => (r.analysis ? URGENCY_RANK[r.analysis.urgency] : 0);
+      // Among equally urgent reviews the worse rating comes first
+      return rank(b) - rank(a) || a.rating - b.rating || newestFirst;
+    }
+    default:
+      return newestFirst;
+  }
+};
+
+/**
+ * Filters and sorts reviews. Returns a new array; the input order is left untouched.
+ */
+export const applyReviewQuery = (reviews: GoogleReview[], query: ReviewQuery): GoogleReview[] => {
+  const reviewer = query.reviewer?.trim() ? normalize(query.reviewer.trim()) : '';
+
+  return filterReviews(reviews, { from: query.from, to: query.to })
+    .filter(r =>
+      (!query.ratings?.length || query.ratings.includes(r.rating)) &&
+      (!query.statuses?.length || query.statuses.includes(r.status)) &&
+      (query.hasText === undefined || hasReviewText(r.content) === query.hasText) &&
+      (!reviewer || normalize(r.reviewerName).includes(reviewer)) &&
+      (!query.sentiment || r.analysis?.sentiment === query.sentiment) &&
+      (!query.topic || Boolean(r.analysis?.topics.some(t => t.topic === query.topic))) &&
+      (!query.search?.trim() || matchesSearch(r, query.search))
+    )
+    .sort(compareReviews(query.sort));
+};
+
+export const loadFilterPresets = (): ReviewFilterPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveFilterPresets = (presets: ReviewFilterPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,137 @@
+import { DraftRevision, DraftVariantStyle, GoogleReview, LocationSyncState } from "../types";
+
+/**
+ * Local persistence for reviews, drafts and sync state.
+ * Reviews are keyed by their resource name (accounts/x/locations/y/reviews/z).
+ */
+const DB_NAME = 'reviewreply-ai';
+const DB_VERSION = 1;
+const REVIEWS_STORE = 'reviews';
+const SYNC_STORE = 'syncState';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+          const store = db.createObjectStore(REVIEWS_STORE, { keyPath: 'id' });
+          store.createIndex('locationId', 'locationId');
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE, { keyPath: 'locationId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Returns every stored review for the given locations
+ */
+export const getStoredReviews = async (locationIds: string[]): Promise<GoogleReview[]> => {
+  const db = await openDb();
+  const index = db.transaction(REVIEWS_STORE).objectStore(REVIEWS_STORE).index('locationId');
+  const results = await Promise.all(locationIds.map(id => promisify(index.getAll(id))));
+  return results.flat();
+};
+
+export const saveReviews = async (reviews: GoogleReview[]): Promise<void> => {
+  if (reviews.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(REVIEWS_STORE, 'readwrite');
+  const store = tx.objectStore(REVIEWS_STORE);
+  reviews.forEach(review => store.put(review));
+  return complete(tx);
+};
+
+export const deleteReviews = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(REVIEWS_STORE, 'readwrite');
+  const store = tx.objectStore(REVIEWS_STORE);
+  ids.forEach(id => store.delete(id));
+  return complete(tx);
+};
+
+export const getSyncState = async (locationId: string): Promise<LocationSyncState | undefined> => {
+  const db = await openDb();
+  return promisify(db.transaction(SYNC_STORE).objectStore(SYNC_STORE).get(locationId));
+};
+
+export const saveSyncState = async (state: LocationSyncState): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  tx.objectStore(SYNC_STORE).put(state);
+  return complete(tx);
+};
+
+const draftCursorOf = (review: GoogleReview) => review.draftCursor ?? (review.draftHistory?.length || 0) - 1;
+
+/**
+ * Records a new draft revision, skipping it if the text did not change.
+ * A changed draft goes back to 'drafted' and needs approving again.
+ * Revisions are never dropped: a new one after an undo is appended and becomes the latest.
+ */
+export const withDraftRevision = (
+  review: GoogleReview,
+  content: string,
+  source: DraftRevision['source'],
+  variantStyles?: DraftVariantStyle[]
+): GoogleReview => {
+  const history = review.draftHistory || [];
+  const current = history[draftCursorOf(review)];
+  if (current && current.content === content) return { ...review, replyContent: content };
+
+  return {
+    ...review,
+    status: 'drafted',
+    replyContent: content,
+    approvals: undefined,
+    draftHistory: [...history, { content, source, variantStyles, createdAt: new Date().toISOString() }],
+    draftCursor: undefined
+  };
+};
+
+export const canUndoDraft = (review: GoogleReview) => draftCursorOf(review) > 0;
+
+export const canRedoDraft = (review: GoogleReview) => draftCursorOf(review) < (review.draftHistory?.length || 0) - 1;
+
+/**
+ * Shows the previous (-1) or next (+1) revision of the draft. Like any change, it needs approving again.
+ */
+export const stepDraftRevision = (review: GoogleReview, step: -1 | 1): GoogleReview => {
+  const history = review.draftHistory || [];
+  const cursor = draftCursorOf(review) + step;
+  if (cursor < 0 || cursor >= history.length) return review;
+
+  return {
+    ...review,
+    status: 'drafted',
+    replyContent: history[cursor].content,
+    approvals: undefined,
+    draftCursor: cursor === history.length - 1 ? undefined : cursor
+  };
+};
@@ -0,0 +1,80 @@
+import { BusinessProfile, GoogleReview, ReviewStatus, SharedReviewWorkflow, SharedWorkflow, TeamMember } from '../types';
+import { googleFetch } from './googleBusinessService';
+import { isNegativeReview } from './approvalWorkflow';
+import { withDraftRevision } from './reviewStore';
+
+// Served by server/workflowStore.ts
+const WORKFLOW_API_PREFIX = '/api/workflow';
+
+// Pending and replied come from Google; everything in between is shared with the team
+const SHARED_STATUSES: ReviewStatus[] = ['drafted', 'in_review', 'needs_changes', 'approved', 'rejected'];
+
+// The team belongs to the Business Profile account that holds the locations
+const accountOf = (profile: BusinessProfile) => profile.accountId || profile.locationId.split('/').slice(0, 2).join('/');
+
+const workflowUrl = (profile: BusinessProfile, route = '') =>
+  `${WORKFLOW_API_PREFIX}${route}?account=${encodeURIComponent(accountOf(profile))}`;
+
+/**
+ * The team, every shared review state, and the email the server verified for the signed-in user
+ */
+export const fetchSharedWorkflow = async (profile: BusinessProfile): Promise<SharedWorkflow> => {
+  const response = await googleFetch(profile.accessToken, workflowUrl(profile), 'load the team workflow');
+  return response.json();
+};
+
+export const saveSharedTeam = async (profile: BusinessProfile, team: TeamMember[]): Promise<TeamMember[]> => {
+  const response = await googleFetch(profile.accessToken, workflowUrl(profile, '/team'), 'save the team', {
+    method: 'PUT',
+    body: JSON.stringify({ team })
+  });
+  return (await response.json()).team;
+};
+
+/**
+ * Sends the review's approval state to the team. Fails with WORKFLOW_CONFLICT when someone
+ * else changed it since this copy was loaded.
+ */
+export const shareReviewWorkflow = async (profile: BusinessProfile, review: GoogleReview): Promise<SharedReviewWorkflow> => {
+  const state = {
+    status: review.status,
+    replyContent: review.replyContent,
+    approvals: review.approvals || [],
+    comments: review.comments || [],
+    // The server checks the rating with Google; a negative analysis is taken on trust
+    negative: isNegativeReview(review)
+  };
+  const response = await googleFetch(profile.accessToken, workflowUrl(profile, '/reviews'), 'share the review with the team', {
+    method: 'PUT',
+    body: JSON.stringify({ reviewId: review.id, state, baseUpdatedAt: review.workflowUpdatedAt })
+  });
+  return (await response.json()).state;
+};
+
+/**
+ * Whether a local change is one the rest of the team needs to see: a decision, an approval or a comment
+ */
+export const hasWorkflowChange = (previous: GoogleReview, next: GoogleReview) =>
+  SHARED_STATUSES.includes(next.status) && (
+    previous.status !== next.status ||
+    (previous.approvals || []).length !== (next.approvals || []).length ||
+    (previous.comments || []).length !== (next.comments || []).length
+  );
+
+/**
+ * Takes the team's version of the review's approval state when it is newer than this copy.
+ * Replied reviews are left alone: Google has the final word on those.
+ */
+export const applySharedWorkflow = (review: GoogleReview, shared?: SharedReviewWorkflow): GoogleReview => {
+  if (!shared || review.status === 'replied') return review;
+  if (review.workflowUpdatedAt && review.workflowUpdatedAt >= shared.updatedAt) return review;
+
+  const drafted = shared.replyContent ? withDraftRevision(review, shared.replyContent, 'team') : review;
+  return {
+    ...drafted,
+    status: shared.status,
+    approvals: shared.approvals,
+    comments: shared.comments,
+    workflowUpdatedAt: shared.updatedAt
+  };
+};
@@ -0,0 +1,56 @@
+import { BusinessProfile, Language, ReplyTemplate, ReviewData, TemplateLibrary } from '../types';
+import { businessNameFor, hasReviewText } from './googleBusinessService';
+
+export const TEMPLATE_VARIABLES = ['reviewerName', 'businessName', 'signature', 'staffName'] as const;
+
+export const EMPTY_TEMPLATE_LIBRARY: TemplateLibrary = { templates: [], rules: [] };
+
+// Knowledge base entries look like "Linh (Manager)"; only the name goes into a reply
+const staffDisplayName = (entry: string) => entry.replace(/\s*\(.*\)\s*$/, '').trim();
+
+/**
+ * The staff member the review mentions, otherwise the first one listed for the location
+ */
+const pickStaffName = (staff: string[], content: string) => {
+  const names = staff.map(staffDisplayName).filter(Boolean);
+  const lower = content.toLowerCase();
+  return names.find(name => lower.includes(name.toLowerCase())) || names[0] || '';
+};
+
+/**
+ * First template whose rule matches the review, in rule order
+ */
+export const matchTemplate = (library: TemplateLibrary | undefined, review: ReviewData, language: Language): ReplyTemplate | undefined => {
+  if (!library) return undefined;
+  const content = review.content.toLowerCase();
+
+  const rule = library.rules.find(r => {
+    if (r.minRating !== undefined && review.rating < r.minRating) return false;
+    if (r.maxRating !== undefined && review.rating > r.maxRating) return false;
+    if (r.language && r.language !== language) return false;
+    if (r.hasText !== undefined && r.hasText !== hasReviewText(review.content)) return false;
+    if (r.keywords?.length && !r.keywords.some(k => content.includes(k.toLowerCase()))) return false;
+    return library.templates.some(t => t.id === r.templateId);
+  });
+
+  return rule && library.templates.find(t => t.id === rule.templateId);
+};
+
+/**
+ * Replaces the template variables. Unknown variables are left as written.
+ */
+export const fillTemplate = (template: ReplyTemplate, businessProfile: BusinessProfile, review: ReviewData, locationId?: string): string => {
+  const staff = businessProfile.knowledgeBase?.[locationId || businessProfile.locationId]?.staff || [];
+  const businessName = businessNameFor(businessProfile, locationId);
+  const values: Record<string, string> = {
+    reviewerName: review.reviewerName || '',
+    businessName,
+    signature: businessProfile.signature || businessName,
+    staffName: pickStaffName(staff, review.content)
+  };
+
+  return template.body
+    .replace(/\{(\w+)\}/g, (match, name: string) => name in values ? values[name] : match)
+    .replace(/[ \t]+([,.!?])/g, '$1') // Tidy up after empty variables, e.g. "Hi {reviewerName}!"
+    .trim();
+};
@@ -0,0 +1,41 @@
+import { BusinessProfile, CachedTranslation, Language } from '../types';
+import { GoogleApiError } from './googleApiErrors';
+import { getLlmProvider, resolveLlmConfig } from './llmProviders';
+
+// Owners who haven't picked a working language read the app's default reply language
+export const DEFAULT_WORKING_LANGUAGE = Language.Vietnamese;
+
+/**
+ * A cached translation is only reused for the same text and target language
+ */
+export const isTranslationCurrent = (cached: CachedTranslation | undefined, sourceText: string, language: Language) =>
+  !!cached && cached.sourceText === sourceText && cached.language === language;
+
+/**
+ * Translates review or reply text for the owner to read. Not meant for posting.
+ */
+export const translateText = async (businessProfile: BusinessProfile, text: string, language: Language): Promise<CachedTranslation> => {
+  const prompt = `
+    Translate the following text from a customer review conversation into ${language}.
+    Keep the meaning, tone and any names exactly; do not add, soften or explain anything.
+    If it is already in ${language}, return it unchanged.
+    Just output the translation, no quotes or notes.
+
+    Text:
+    """${text}"""
+  `;
+
+  const llmConfig = resolveLlmConfig(businessProfile.llm);
+
+  try {
+    const translated = await getLlmProvider(llmConfig.provider).generate(prompt, llmConfig, {
+      feature: 'translate',
+      accessToken: businessProfile.accessToken
+    });
+    return { language, sourceText: text, text: translated.trim() };
+  } catch (error) {
+    console.error("Error translating text:", error);
+    if (error instanceof GoogleApiError) throw error;
+    throw new Error("Failed to translate. Please try again.");
+  }
+};
@@ -3,24 +3,184 @@ export enum Tone {
   Friendly = 'Friendly',
   Empathetic = 'Empathetic',
   Grateful = 'Grateful',
-  Witty = 'Witty'
+  Witty = 'Witty',
+  BrandVoice = 'Brand Voice' // Imitates the business's own past replies
 }
 
 export enum Language {
   Vietnamese = 'Vietnamese',
   English = 'English',
   French = 'French',
-  Japanese = 'Japanese'
+  Japanese = 'Japanese',
+  Korean = 'Korean',
+  Chinese = 'Chinese',
+  Thai = 'Thai',
+  Indonesian = 'Indonesian',
+  German = 'German',
+  Spanish = 'Spanish',
+  Italian = 'Italian',
+  Portuguese = 'Portuguese',
+  Dutch = 'Dutch',
+  Swedish = 'Swedish',
+  Polish = 'Polish',
+  Turkish = 'Turkish',
+  Russian = 'Russian',
+  Greek = 'Greek',
+  Arabic = 'Arabic',
+  Hebrew = 'Hebrew',
+  Hindi = 'Hindi'
+}
+
+export type LlmProviderType = 'gemini' | 'openai-compatible' | 'local' | 'fake';
+
+export interface GenerationSettings {
+  temperature: number;
+  topP?: number;
+  topK?: number; // Ignored by OpenAI-compatible providers
+  maxOutputTokens?: number;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderType;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible and local servers, e.g. http://localhost:11434/v1
+  apiKey?: string; // Gemini calls go through the server proxy unless the business sets its own key
+  settings: GenerationSettings;
+}
+
+// Routes of the server-side AI proxy, one per feature
+export type AiFeature = 'reply' | 'voice' | 'translate' | 'analyze' | 'refine';
+
+export interface LlmRequestContext {
+  feature: AiFeature;
+  accessToken?: string; // Google access token, identifies the caller to the AI proxy
+}
+
+export interface ConnectedLocation {
+  locationId: string; // Google Location Resource Name (accounts/x/locations/y)
+  title: string;
+}
+
+// Facts about one location that replies may rely on
+export interface KnowledgeBase {
+  contactChannels?: string; // Where unhappy customers should get in touch
+  hours?: string;
+  policies?: string;
+  staff?: string[];
+  signatureItems?: string[]; // Signature dishes or services
+  neverPromise?: string[];
+}
+
+// A past reply the team picked as a good example of its voice
+export interface BrandVoiceExample {
+  reviewId: string;
+  rating: number;
+  reviewContent: string;
+  replyContent: string;
+}
+
+export interface BrandVoice {
+  styleProfile?: string; // How the team writes, as instructions for the model
+  examples: BrandVoiceExample[];
+  updatedAt?: string;
+}
+
+// House reply, either posted as written or personalized by the AI
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  body: string; // May use {reviewerName}, {businessName}, {signature} and {staffName}
+  mode: 'reply' | 'skeleton';
+}
+
+// Picks a template for matching reviews; rules are checked in order and the first match wins
+export interface TemplateRule {
+  id: string;
+  templateId: string;
+  minRating?: number;
+  maxRating?: number;
+  language?: Language; // Reply language
+  hasText?: boolean;
+  keywords?: string[]; // Any of them, case-insensitive
+}
+
+export interface TemplateLibrary {
+  templates: ReplyTemplate[];
+  rules: TemplateRule[];
+}
+
+export type AutoReplyAction = 'draft' | 'queue' | 'post';
+
+// Acts on pending reviews after each sync; rules are checked in order and the first match wins
+export interface AutoReplyRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minRating?: number;
+  maxRating?: number;
+  hasText?: boolean;
+  language?: Language; // Reply language
+  keywords?: string[]; // Any of them, case-insensitive
+  sentiment?: Sentiment; // Only matches reviews with a current analysis
+  minAgeHours?: number; // Waits until the review is at least this old
+  templateId?: string; // Otherwise the reply is drafted like a manual draft
+  action: AutoReplyAction;
+  dailyCap: number; // Most reviews the rule acts on per calendar day
+}
+
+// What an auto-reply rule did to a review, also used to count the rule's daily cap
+export interface AutoReplyRecord {
+  ruleId: string;
+  ruleName: string;
+  action: AutoReplyAction; // Can be milder than the rule's action, e.g. a 1-2 star review is never posted
+  at: string; // ISO timestamp
 }
 
 export interface BusinessProfile {
   name: string;
   accountId: string;  // Google Account Resource Name
-  locationId: string; // Google Location Resource Name
+  locationId: string; // Google Location Resource Name (primary location)
+  locations?: ConnectedLocation[]; // Set when several locations are managed at once
   accessToken: string; // OAuth Access Token
+  tokenExpiresAt?: number; // Epoch ms, from the token response expires_in
   isConnected: boolean;
+  isDemo?: boolean; // Connected to the local mock server, no Google credentials
   type?: string;
   signature?: string;
+  llm?: LlmConfig; // Reply generation model, defaults to Gemini
+  knowledgeBase?: Record<string, KnowledgeBase>; // Keyed by locationId
+  brandVoice?: BrandVoice;
+  templateLibrary?: TemplateLibrary;
+  workingLanguage?: Language; // Language the owner reads, for inline translations
+  autoReplyRules?: AutoReplyRule[];
+  team?: TeamMember[]; // Enables the approval workflow when not empty
+  bannedPhrases?: string[]; // Replies containing any of them can't be posted
+}
+
+export interface PostalAddress {
+  addressLines?: string[];
+  locality?: string;
+  administrativeArea?: string;
+  postalCode?: string;
+  regionCode?: string;
+}
+
+export interface GoogleAccount {
+  name: string; // Account Resource Name (accounts/x)
+  accountName?: string; // Display name
+  type?: string;
+}
+
+export interface GoogleLocation {
+  name: string; // Location Resource Name (locations/y)
+  title?: string;
+  storeCode?: string;
+  storefrontAddress?: PostalAddress;
+}
+
+export interface ReviewReply {
+  comment: string;
+  updateTime: string;
 }
 
 export interface ReviewData {
@@ -29,23 +189,223 @@ export interface ReviewData {
   content: string;
 }
 
-export type ReviewStatus = 'pending' | 'drafted' | 'replied';
+// Drafts move through review before posting once a team is set up
+export type ReviewStatus = 'pending' | 'drafted' | 'in_review' | 'needs_changes' | 'approved' | 'rejected' | 'replied';
+
+export type TeamRole = 'drafter' | 'approver' | 'admin';
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string; // Google account the member signs in with; identifies them to the server
+  role: TeamRole;
+}
+
+export interface ReviewApproval {
+  memberId: string;
+  memberName: string;
+  at: string; // ISO timestamp
+}
+
+export interface ReviewComment {
+  memberId: string;
+  memberName: string;
+  text: string;
+  status?: ReviewStatus; // The decision the comment came with, if any
+  at: string; // ISO timestamp
+}
+
+export type GuardrailCheck = 'length' | 'placeholder' | 'language' | 'personal_data' | 'contact_details' | 'banned_phrase' | 'liability';
+
+// Errors block posting; warnings are only shown
+export interface GuardrailFinding {
+  check: GuardrailCheck;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DraftRevision {
+  content: string;
+  source: 'ai' | 'manual' | 'template' | 'variant' | 'refine' | 'team'; // 'team': edited by a teammate elsewhere
+  variantStyles?: DraftVariantStyle[]; // Variants the text was picked or merged from
+  createdAt: string; // ISO timestamp
+}
+
+export type DraftVariantStyle = 'standard' | 'short' | 'detailed' | 'formal' | 'casual' | 'friendly' | 'empathetic';
+
+// An alternative draft shown side by side with the others
+export interface DraftVariant {
+  style: DraftVariantStyle;
+  content: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Translation for the owner, valid while the source text and target language are unchanged
+export interface CachedTranslation {
+  language: Language;
+  sourceText: string;
+  text: string;
+}
+
+export type Sentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+export type ReviewTopic = 'food' | 'service' | 'price' | 'cleanliness' | 'wait_time' | 'staff' | 'ambience' | 'quality' | 'booking' | 'other';
+export type Urgency = 'low' | 'medium' | 'high';
+
+export interface TopicSentiment {
+  topic: ReviewTopic;
+  sentiment: Sentiment;
+}
+
+export interface ReviewAnalysis {
+  sentiment: Sentiment;
+  topics: TopicSentiment[];
+  urgency: Urgency;
+  staffNames: string[]; // As written by the reviewer
+  sourceText: string; // Review content that was analyzed
+  analyzedAt: string; // ISO timestamp
+}
 
 export interface GoogleReview {
   id: string; // Review Resource Name (accounts/x/locations/y/reviews/z)
   reviewId: string; // The short ID
+  locationId: string; // Location Resource Name the review belongs to
   reviewerName: string;
   reviewerAvatar?: string;
   rating: number;
-  content: string;
+  content: string; // The reviewer's own words, without Google's translation
+  googleTranslation?: string; // Machine translation Google attached to the review
+  language?: Language; // Detected from content
+  replyLanguage?: Language; // Chosen by the user, overrides the detected language
   date: string;
+  createTime: string; // RFC 3339 timestamp
+  updateTime: string; // RFC 3339 timestamp
   status: ReviewStatus;
   replyContent?: string;
+  replyUpdateTime?: string; // RFC 3339 timestamp of the posted reply
+  draftHistory?: DraftRevision[]; // Local only, never sent to Google
+  draftCursor?: number; // Index in draftHistory of the shown draft after an undo; undefined is the latest
+  reviewTranslation?: CachedTranslation; // Review text in the owner's working language
+  draftTranslation?: CachedTranslation; // Back-translation of the draft reply
+  analysis?: ReviewAnalysis;
+  autoReply?: AutoReplyRecord; // Set when an auto-reply rule drafted, queued or posted the reply
+  approvals?: ReviewApproval[]; // For the current draft; cleared when the draft changes
+  draftVariants?: DraftVariant[]; // Local only, until one is picked
+  comments?: ReviewComment[]; // Kept across draft changes
+  workflowUpdatedAt?: string; // Version of the team's shared approval state this copy is based on
+}
+
+// A review's approval state as shared with the team through server/workflowStore.ts
+export interface SharedReviewWorkflow {
+  status: ReviewStatus;
+  replyContent?: string;
+  approvals: ReviewApproval[];
+  comments: ReviewComment[];
+  // What the server counts required approvals from: the rating as Google has it, and whether
+  // anyone's analysis found the review negative (once negative, it stays negative)
+  rating?: number;
+  negative?: boolean;
+  updatedAt: string; // ISO timestamp, set by the server
+}
+
+export interface SharedWorkflow {
+  email: string; // The signed-in user, as verified by the server
+  team: TeamMember[];
+  reviews: Record<string, SharedReviewWorkflow>; // By review id
+}
+
+export type ReviewSortKey = 'newest' | 'oldest' | 'rating_low' | 'rating_high' | 'urgency';
+
+// Search, filters and sort order of the review list. Empty fields don't filter.
+export interface ReviewQuery {
+  search?: string; // Matched against review and reply text
+  ratings?: number[];
+  statuses?: ReviewStatus[];
+  from?: string; // ISO date (inclusive), compared with createTime
+  to?: string; // ISO date (inclusive)
+  hasText?: boolean;
+  reviewer?: string;
+  sentiment?: Sentiment;
+  topic?: ReviewTopic;
+  sort: ReviewSortKey;
+}
+
+export interface ReviewFilterPreset {
+  id: string;
+  name: string;
+  query: ReviewQuery;
+}
+
+export interface ReviewSyncProgress {
+  fetched: number;
+  total?: number; // Known once the first page arrives
+}
+
+export interface FetchReviewsOptions {
+  pageSize?: number; // 1-50, API default is 50
+  since?: string; // Only fetch reviews created or updated after this timestamp
+  onProgress?: (progress: ReviewSyncProgress) => void;
+}
+
+export interface LocationSyncState {
+  locationId: string;
+  lastSync: string;
+  lastFullSync?: string; // Last sync that went through the whole history
+  averageRating?: number;
+  totalReviewCount?: number;
+}
+
+export interface ReviewSyncResult {
+  reviews: GoogleReview[];
+  averageRating?: number;
+  totalReviewCount?: number;
+  syncedAt: string; // Pass as `since` for the next incremental sync
+}
+
+export type BulkDraftItemStatus = 'queued' | 'running' | 'rateLimited' | 'done' | 'failed' | 'cancelled';
+
+export interface BulkDraftItem {
+  reviewId: string;
+  status: BulkDraftItemStatus;
+  attempts: number;
+  error?: string;
+}
+
+export type BulkDraftJobState = 'running' | 'paused' | 'cancelled' | 'finished';
+
+export interface BulkDraftProgress {
+  state: BulkDraftJobState;
+  items: BulkDraftItem[];
+}
+
+export type PostQueueItemStatus = 'waiting' | 'posting' | 'posted' | 'failed';
+
+export interface PostQueueItem {
+  reviewId: string;
+  content: string;
+  status: PostQueueItemStatus;
+  sendAt: number; // Epoch ms when the undo window closes
+  error?: string;
 }
 
 export interface GenerateReplyParams {
   businessProfile: BusinessProfile;
   review: ReviewData;
+  locationId?: string; // Picks the knowledge base, defaults to the primary location
+  template?: ReplyTemplate;
+  analysis?: ReviewAnalysis;
   tone: Tone;
   language: Language;
+  instruction?: string; // Extra guidance, e.g. the length or register of a draft variant
+}
+
+// One-click refinements of an existing draft
+export type RefineAction = 'shorter' | 'warmer' | 'more_formal' | 'mention_manager' | 'offer_refund' | 'remove_apology';
+
+export interface RefineReplyParams {
+  businessProfile: BusinessProfile;
+  review: ReviewData;
+  locationId?: string; // Picks the knowledge base, defaults to the primary location
+  draft: string;
+  instruction: string; // A preset's instruction or the user's own
+  language: Language;
 }
\ No newline at end of file
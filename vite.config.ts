@@ -1,6 +1,9 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { googleBusinessMock } from './mock/googleBusinessMock';
+import { aiProxy } from './server/aiProxy';
+import { workflowStore } from './server/workflowStore';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +12,18 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [
+        react(),
+        googleBusinessMock(),
+        // The Gemini key is only read here and never reaches the client bundle
+        aiProxy({
+          apiKey: env.GEMINI_API_KEY,
+          clientId: env.GOOGLE_CLIENT_ID,
+          requestsPerMinute: Number(env.AI_RATE_LIMIT_PER_MINUTE) || undefined,
+          requestsPerDay: Number(env.AI_RATE_LIMIT_PER_DAY) || undefined
+        }),
+        workflowStore({ clientId: env.GOOGLE_CLIENT_ID })
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),